@@ -0,0 +1,40 @@
+import { Award, CalendarCheck, Circle, Flame, Languages, Moon, Star, Sunrise, Target, Trophy, Zap, type LucideIcon } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { TIER_STYLES, type AchievementIcon as AchievementIconName, type AchievementTier } from '@/lib/achievements';
+
+const ICONS: Record<AchievementIconName, LucideIcon> = {
+  star: Star,
+  award: Award,
+  trophy: Trophy,
+  sunrise: Sunrise,
+  flame: Flame,
+  calendar: CalendarCheck,
+  target: Target,
+  beads: Circle,
+  moon: Moon,
+  languages: Languages,
+  zap: Zap,
+};
+
+interface AchievementIconProps {
+  icon: AchievementIconName;
+  tier: AchievementTier;
+  locked?: boolean;
+  className?: string;
+}
+
+// Achievement icon in a medallion coloured by tier
+export default function AchievementIcon({ icon, tier, locked = false, className }: AchievementIconProps) {
+  const Icon = ICONS[icon];
+  return (
+    <span
+      className={cn(
+        'inline-flex h-10 w-10 shrink-0 items-center justify-center rounded-full',
+        locked ? 'bg-muted text-muted-foreground' : TIER_STYLES[tier].className,
+        className
+      )}
+    >
+      <Icon className="h-1/2 w-1/2" />
+    </span>
+  );
+}
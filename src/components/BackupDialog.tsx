@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Separator } from '@/components/ui/separator';
+import { ArchiveRestore, Download, FileSpreadsheet } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  applyImport,
+  backupFileName,
+  backupToJson,
+  createBackup,
+  parseBackup,
+  planImport,
+  previewImport,
+  sessionsToCsv,
+  type ImportMode,
+  type ImportPreview,
+  type PracticeBackup,
+} from '@/lib/backup';
+import { downloadFile } from '@/lib/download';
+import { getPracticeStore } from '@/lib/practice-store';
+import { loadProgress } from '@/lib/progress';
+
+interface BackupDialogProps {
+  onImported?: () => void;
+}
+
+const PREVIEW_ROWS: Array<[label: string, key: keyof ImportPreview]> = [
+  ['Repetitions', 'repetitions'],
+  ['Sessions', 'sessions'],
+  ['Achievements', 'achievements'],
+  ['Total points', 'totalPoints'],
+];
+
+const readCurrentBackup = async () => createBackup(loadProgress(), await getPracticeStore());
+
+export default function BackupDialog({ onImported }: BackupDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [current, setCurrent] = useState<PracticeBackup | null>(null);
+  const [incoming, setIncoming] = useState<PracticeBackup | null>(null);
+  const [importError, setImportError] = useState('');
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [isImporting, setIsImporting] = useState(false);
+  const { toast } = useToast();
+
+  const planned = current && incoming ? planImport(current, incoming, mode) : null;
+  const preview = current && planned ? previewImport(current, planned) : null;
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setIncoming(null);
+      setImportError('');
+      setMode('merge');
+    }
+  };
+
+  const handleExport = async (extension: 'json' | 'csv') => {
+    try {
+      const backup = await readCurrentBackup();
+      if (extension === 'json') {
+        downloadFile(backupFileName('json'), backupToJson(backup), 'application/json');
+      } else {
+        downloadFile(backupFileName('csv'), sessionsToCsv(backup.history.sessions), 'text/csv');
+      }
+    } catch (error) {
+      toast({ title: "Export failed", description: String(error), variant: "destructive" });
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    setIncoming(null);
+    setImportError('');
+    if (!file) return;
+
+    try {
+      const backup = parseBackup(await file.text());
+      setCurrent(await readCurrentBackup());
+      setIncoming(backup);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleImport = async () => {
+    if (!planned) return;
+    setIsImporting(true);
+    try {
+      await applyImport(planned, await getPracticeStore());
+      toast({
+        title: "📥 Practice Data Imported",
+        description: mode === 'replace' ? "Your practice data was replaced by the backup" : "The backup was merged into your practice data",
+      });
+      onImported?.();
+      handleOpenChange(false);
+    } catch (error) {
+      toast({ title: "Import failed", description: String(error), variant: "destructive" });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="border-accent">
+          <ArchiveRestore className="w-4 h-4 mr-2" />
+          Backup &amp; Restore
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Backup &amp; Restore</DialogTitle>
+          <DialogDescription>
+            Practice data is only kept in this browser. Export a backup to move it to another device.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>Export</Label>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={() => handleExport('json')}>
+              <Download className="w-4 h-4 mr-2" />
+              Full backup (JSON)
+            </Button>
+            <Button variant="outline" onClick={() => handleExport('csv')}>
+              <FileSpreadsheet className="w-4 h-4 mr-2" />
+              Sessions (CSV)
+            </Button>
+          </div>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          <Label htmlFor="backup-file">Import a JSON backup</Label>
+          <Input
+            id="backup-file"
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+          {importError && <p className="text-sm text-destructive">{importError}</p>}
+
+          {incoming && preview && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                Backup from {new Date(incoming.exportedAt).toLocaleString()}
+              </p>
+              <RadioGroup value={mode} onValueChange={(value) => setMode(value as ImportMode)} className="gap-2">
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="merge" id="import-merge" />
+                  <Label htmlFor="import-merge" className="font-normal">
+                    Merge – keep everything from both, with the higher point total
+                  </Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="replace" id="import-replace" />
+                  <Label htmlFor="import-replace" className="font-normal">
+                    Replace – discard current data and use the backup
+                  </Label>
+                </div>
+              </RadioGroup>
+
+              <div className="rounded-md border border-border divide-y divide-border text-sm">
+                {PREVIEW_ROWS.map(([label, key]) => {
+                  const [before, after] = preview[key];
+                  return (
+                    <div key={key} className="flex justify-between px-3 py-2">
+                      <span>{label}</span>
+                      <span className={after < before ? 'text-destructive' : after > before ? 'text-primary font-semibold' : 'text-muted-foreground'}>
+                        {before} → {after}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleImport} disabled={!planned || isImporting}>
+            {mode === 'replace' ? 'Replace My Data' : 'Merge Backup'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
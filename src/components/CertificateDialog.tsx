@@ -0,0 +1,120 @@
+import { useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Download, Printer } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  CERTIFICATE_HEIGHT,
+  CERTIFICATE_WIDTH,
+  certificateFileName,
+  certificateToPng,
+  certificateToSvg,
+  fontFamily,
+  layoutCertificate,
+  readCertificateColors,
+  type CertificateData,
+} from '@/lib/certificate';
+import { downloadFile } from '@/lib/download';
+
+interface CertificateDialogProps {
+  data: CertificateData | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function CertificateDialog({ data, onOpenChange }: CertificateDialogProps) {
+  const { toast } = useToast();
+  const elements = useMemo(() => (data ? layoutCertificate(data, readCertificateColors()) : []), [data]);
+
+  const handlePng = async () => {
+    if (!data) return;
+    try {
+      downloadFile(certificateFileName(data, 'png'), await certificateToPng(elements), 'image/png');
+    } catch (error) {
+      toast({ title: "Download failed", description: String(error), variant: "destructive" });
+    }
+  };
+
+  const handleSvg = () => {
+    if (!data) return;
+    downloadFile(certificateFileName(data, 'svg'), certificateToSvg(elements), 'image/svg+xml');
+  };
+
+  return (
+    <Dialog open={data !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="certificate-dialog max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Your Certificate</DialogTitle>
+          <DialogDescription>Download it as an image or print it on A4 paper.</DialogDescription>
+        </DialogHeader>
+
+        {/* The print stylesheet prints only this element */}
+        <svg
+          viewBox={`0 0 ${CERTIFICATE_WIDTH} ${CERTIFICATE_HEIGHT}`}
+          className="certificate-print w-full h-auto rounded-md shadow-peaceful"
+          role="img"
+          aria-label={data ? `Certificate: ${data.achievementTitle} awarded to ${data.name}` : undefined}
+        >
+          {elements.map((element, index) => {
+            if (element.kind === 'rect') {
+              return (
+                <rect
+                  key={index}
+                  x={element.x}
+                  y={element.y}
+                  width={element.width}
+                  height={element.height}
+                  fill={element.fill ?? 'none'}
+                  stroke={element.stroke}
+                  strokeWidth={element.strokeWidth}
+                />
+              );
+            }
+            if (element.kind === 'line') {
+              return (
+                <line
+                  key={index}
+                  x1={element.x1}
+                  y1={element.y1}
+                  x2={element.x2}
+                  y2={element.y2}
+                  stroke={element.stroke}
+                  strokeWidth={element.strokeWidth}
+                />
+              );
+            }
+            return (
+              <text
+                key={index}
+                x={element.x}
+                y={element.y}
+                textAnchor="middle"
+                fontFamily={fontFamily(element.font)}
+                fontSize={element.size}
+                fontWeight={element.weight ?? 400}
+                fontStyle={element.italic ? 'italic' : undefined}
+                fill={element.color}
+              >
+                {element.text}
+              </text>
+            );
+          })}
+        </svg>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => window.print()}>
+            <Printer className="w-4 h-4 mr-2" />
+            Print
+          </Button>
+          <Button variant="outline" onClick={handleSvg}>
+            <Download className="w-4 h-4 mr-2" />
+            SVG
+          </Button>
+          <Button onClick={handlePng}>
+            <Download className="w-4 h-4 mr-2" />
+            PNG
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,305 @@
+import { useEffect, useMemo, useState, type RefObject } from 'react';
+import { Pause, Play, Repeat, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { useToast } from '@/hooks/use-toast';
+import { useAudioDuration, useAudioTime } from '@/hooks/use-audio-time';
+import { phraseSegment } from '@/lib/audio-timings';
+import type { MantraAudio, MantraPhrase } from '@/lib/mantras';
+import {
+  REPEAT_MODES,
+  START_CURSOR,
+  advanceCursor,
+  currentSegment,
+  formatTime,
+  type PlaybackPlan,
+  type RepeatMode,
+  type Segment,
+} from '@/lib/playback';
+
+interface ChantPlayerProps {
+  audio?: MantraAudio;
+  // Shared with the trainer, which follows and seeks the chant too
+  audioRef: RefObject<HTMLAudioElement>;
+  phrases: MantraPhrase[];
+  // Held by the trainer, which returns to the whole chant before playing or
+  // seeking the audio itself so the repeat loop does not pull it back
+  mode: RepeatMode;
+  onModeChange: (mode: RepeatMode) => void;
+}
+
+const toCount = (value: string) => Math.max(1, Math.floor(Number(value) || 0));
+
+export default function ChantPlayer({ audio, audioRef, phrases, mode, onModeChange }: ChantPlayerProps) {
+  const { toast } = useToast();
+  const time = useAudioTime(audioRef);
+  const duration = useAudioDuration(audioRef);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackSpeed, setPlaybackSpeed] = useState([1]);
+  const [pointA, setPointA] = useState<number | null>(null);
+  const [pointB, setPointB] = useState<number | null>(null);
+  const [phraseRepeats, setPhraseRepeats] = useState(3);
+  const [totalPlays, setTotalPlays] = useState<number | null>(null);
+  const [cursor, setCursor] = useState(START_CURSOR);
+
+  const phraseSegments = useMemo(
+    () => (audio ? phrases.map(phrase => phraseSegment(audio, phrase)).filter((segment): segment is Segment => segment !== null) : []),
+    [audio, phrases]
+  );
+  const plan: PlaybackPlan = {
+    mode,
+    ab: pointA !== null && pointB !== null && pointB > pointA ? { start: pointA, end: pointB } : null,
+    phrases: phraseSegments,
+    phraseRepeats,
+    totalPlays,
+  };
+  const segment = currentSegment(plan, cursor, duration);
+
+  // A different recording starts with a fresh count and no loop points
+  useEffect(() => {
+    setCursor(START_CURSOR);
+    setPointA(null);
+    setPointB(null);
+  }, [audio]);
+
+  useEffect(() => {
+    if (audioRef.current) {
+      // The default rate survives loading another recording
+      audioRef.current.defaultPlaybackRate = playbackSpeed[0];
+      audioRef.current.playbackRate = playbackSpeed[0];
+    }
+  }, [audioRef, playbackSpeed]);
+
+  // Count a play at the end of the section, then repeat or stop
+  const finishPass = () => {
+    const element = audioRef.current;
+    if (!element) return;
+
+    const { cursor: next, stop } = advanceCursor(plan, cursor);
+    setCursor(next);
+    if (stop) {
+      element.pause();
+      toast({
+        title: "🔔 Chanting Complete",
+        description: `Played ${next.plays} time${next.plays === 1 ? '' : 's'}`,
+      });
+      return;
+    }
+    element.currentTime = currentSegment(plan, next, duration).start;
+    element.play();
+  };
+
+  // Sections ending before the recording does are checked on every time
+  // update. The element's own position is read, as the time state lags a
+  // frame behind a seek.
+  useEffect(() => {
+    const element = audioRef.current;
+    if (mode === 'track' || !element || element.paused) return;
+    if (element.currentTime >= segment.end) finishPass();
+  });
+
+  const togglePlay = () => {
+    const element = audioRef.current;
+    if (!element) return;
+
+    if (isPlaying) {
+      element.pause();
+      return;
+    }
+    if (mode !== 'track' && (element.currentTime < segment.start || element.currentTime >= segment.end)) {
+      element.currentTime = segment.start;
+    }
+    element.play();
+  };
+
+  const reset = () => {
+    setCursor(START_CURSOR);
+    if (audioRef.current) {
+      audioRef.current.currentTime = currentSegment(plan, START_CURSOR, duration).start;
+    }
+  };
+
+  const handleModeChange = (next: RepeatMode) => {
+    onModeChange(next);
+    setCursor(START_CURSOR);
+  };
+
+  const seek = (value: number[]) => {
+    if (audioRef.current) {
+      audioRef.current.currentTime = value[0];
+    }
+  };
+
+  const loopPhrase = (phrase: Segment) => {
+    setPointA(phrase.start);
+    setPointB(phrase.end);
+    setCursor(START_CURSOR);
+  };
+
+  return (
+    <>
+      {audio && (
+        <Card className="mb-6 p-6 bg-card/80 backdrop-blur-sm shadow-peaceful">
+          <div className="text-center space-y-4">
+            <h3 className="text-lg font-semibold">{audio.title}</h3>
+            <p className="text-sm text-muted-foreground">{audio.credit}</p>
+
+            {/* Progress */}
+            <div className="max-w-md mx-auto">
+              <Slider
+                value={[Math.min(time, duration)]}
+                onValueChange={seek}
+                min={0}
+                max={duration || 1}
+                step={0.1}
+                disabled={!duration}
+                aria-label="Seek"
+              />
+              <div className="flex justify-between text-xs text-muted-foreground mt-1 tabular-nums">
+                <span>{formatTime(time)}</span>
+                <span>-{formatTime(duration - time)}</span>
+              </div>
+            </div>
+
+            {/* Audio Controls */}
+            <div className="flex justify-center gap-4">
+              <Button onClick={togglePlay} className="bg-gradient-spiritual hover:opacity-90">
+                {isPlaying ? (
+                  <>
+                    <Pause className="w-4 h-4 mr-2" />
+                    Pause Chant
+                  </>
+                ) : (
+                  <>
+                    <Play className="w-4 h-4 mr-2" />
+                    Play Chant
+                  </>
+                )}
+              </Button>
+              <Button onClick={reset} variant="outline" className="border-accent">
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Reset
+              </Button>
+            </div>
+
+            {/* Repeat */}
+            <div className="max-w-md mx-auto space-y-3">
+              <div className="flex flex-wrap justify-center gap-2">
+                {REPEAT_MODES.filter(item => item.id !== 'phrases' || phraseSegments.length > 0).map((item) => (
+                  <Button
+                    key={item.id}
+                    size="sm"
+                    variant={mode === item.id ? 'default' : 'outline'}
+                    onClick={() => handleModeChange(item.id)}
+                  >
+                    {item.label}
+                  </Button>
+                ))}
+              </div>
+
+              {mode === 'ab' && (
+                <div className="space-y-2">
+                  <div className="flex flex-wrap justify-center gap-2">
+                    <Button size="sm" variant="outline" className="border-accent" onClick={() => setPointA(audioRef.current?.currentTime ?? 0)}>
+                      A: {pointA === null ? '–' : formatTime(pointA)}
+                    </Button>
+                    <Button size="sm" variant="outline" className="border-accent" onClick={() => setPointB(audioRef.current?.currentTime ?? 0)}>
+                      B: {pointB === null ? '–' : formatTime(pointB)}
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => { setPointA(null); setPointB(null); }}>
+                      Clear
+                    </Button>
+                  </div>
+                  {phraseSegments.length > 0 && (
+                    <div className="flex flex-wrap justify-center items-center gap-2 text-xs">
+                      <span className="text-muted-foreground">Loop a line:</span>
+                      {phraseSegments.map((phrase, index) => (
+                        <Button key={index} size="sm" variant="ghost" className="h-7 px-2" onClick={() => loopPhrase(phrase)}>
+                          {index + 1}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                  {!plan.ab && (
+                    <p className="text-xs text-muted-foreground">
+                      Set A and B while the chant plays, with B after A, to loop that section.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {mode === 'phrases' && (
+                <div className="flex items-center justify-center gap-2">
+                  <Label htmlFor="phrase-repeats" className="text-sm">Play each line</Label>
+                  <Input
+                    id="phrase-repeats"
+                    type="number"
+                    min={1}
+                    value={phraseRepeats}
+                    onChange={(e) => setPhraseRepeats(toCount(e.target.value))}
+                    className="w-20 h-8"
+                  />
+                  <span className="text-sm">times</span>
+                </div>
+              )}
+
+              <div className="flex items-center justify-center gap-2">
+                <Label htmlFor="total-plays" className="text-sm">Stop after</Label>
+                <Input
+                  id="total-plays"
+                  type="number"
+                  min={1}
+                  placeholder="∞"
+                  value={totalPlays ?? ''}
+                  onChange={(e) => setTotalPlays(e.target.value ? toCount(e.target.value) : null)}
+                  className="w-20 h-8"
+                />
+                <span className="text-sm">plays</span>
+              </div>
+
+              <p className="flex items-center justify-center gap-1 text-sm text-muted-foreground">
+                <Repeat className="w-4 h-4" />
+                {cursor.plays}{totalPlays !== null && ` / ${totalPlays}`} plays
+                {mode === 'phrases' && phraseSegments.length > 0 &&
+                  ` · line ${(cursor.phrase % phraseSegments.length) + 1} of ${phraseSegments.length}, play ${cursor.phraseRepeat + 1} of ${phraseRepeats}`}
+              </p>
+            </div>
+
+            {/* Speed Control */}
+            <div className="max-w-md mx-auto">
+              <label className="text-sm font-medium mb-2 block">
+                Playback Speed: {playbackSpeed[0]}x
+              </label>
+              <Slider
+                value={playbackSpeed}
+                onValueChange={setPlaybackSpeed}
+                min={0.5}
+                max={2}
+                step={0.1}
+                className="w-full"
+              />
+              <div className="flex justify-between text-xs text-muted-foreground mt-1">
+                <span>0.5x (Slow)</span>
+                <span>1x (Normal)</span>
+                <span>2x (Fast)</span>
+              </div>
+            </div>
+          </div>
+        </Card>
+      )}
+
+      {/* Audio Element */}
+      <audio
+        ref={audioRef}
+        src={audio?.src}
+        preload="auto"
+        onEnded={finishPass}
+        onPause={() => setIsPlaying(false)}
+        onPlay={() => setIsPlaying(true)}
+      />
+    </>
+  );
+}
@@ -0,0 +1,44 @@
+import type { RefObject } from 'react';
+import { cn } from '@/lib/utils';
+import { getWordTiming, wordAtTime } from '@/lib/audio-timings';
+import type { MantraAudio } from '@/lib/mantras';
+import { useAudioTime } from '@/hooks/use-audio-time';
+
+interface KaraokeMantraProps {
+  words: string[];
+  audio: MantraAudio;
+  // Element playing the chant, followed here so only the words re-render
+  audioRef: RefObject<HTMLAudioElement>;
+  onSeek: (word: number) => void;
+  className?: string;
+}
+
+export default function KaraokeMantra({ words, audio, audioRef, onSeek, className }: KaraokeMantraProps) {
+  const time = useAudioTime(audioRef);
+  const current = wordAtTime(audio, time);
+
+  return (
+    <p className={cn('flex flex-wrap justify-center gap-x-2', className)}>
+      {words.map((word, index) => {
+        const timed = Boolean(getWordTiming(audio, index));
+        return (
+          <button
+            key={index}
+            type="button"
+            onClick={() => onSeek(index)}
+            disabled={!timed}
+            title={timed ? 'Play from this word' : undefined}
+            aria-current={index === current ? 'true' : undefined}
+            className={cn(
+              'rounded-sm px-0.5 transition-colors duration-150 disabled:cursor-default',
+              timed && 'hover:text-primary',
+              index === current && 'bg-accent/30 text-primary font-semibold'
+            )}
+          >
+            {word}
+          </button>
+        );
+      })}
+    </p>
+  );
+}
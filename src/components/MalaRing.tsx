@@ -0,0 +1,79 @@
+import { cn } from '@/lib/utils';
+
+interface MalaRingProps {
+  size: number;
+  // Beads moved since the last turn at the sumeru
+  bead: number;
+  // After every turn at the sumeru the beads are counted in the other direction
+  reversed?: boolean;
+  onAdvance?: () => void;
+  className?: string;
+}
+
+const VIEW_BOX = 300;
+const CENTER = VIEW_BOX / 2;
+const RADIUS = 130;
+
+export default function MalaRing({ size, bead, reversed = false, onAdvance, className }: MalaRingProps) {
+  // One extra slot at the bottom of the ring for the sumeru bead
+  const slots = size + 1;
+  const beadRadius = Math.min(10, (Math.PI * RADIUS) / slots * 0.8);
+
+  const positionOf = (slot: number) => {
+    const angle = Math.PI / 2 + (slot / slots) * Math.PI * 2;
+    return { x: CENTER + RADIUS * Math.cos(angle), y: CENTER + RADIUS * Math.sin(angle) };
+  };
+
+  const sumeru = positionOf(0);
+
+  return (
+    <svg
+      viewBox={`0 0 ${VIEW_BOX} ${VIEW_BOX}`}
+      className={cn('w-full max-w-xs mx-auto select-none', onAdvance && 'cursor-pointer', className)}
+      onClick={onAdvance}
+      role={onAdvance ? 'button' : 'img'}
+      aria-label={`Mala: bead ${bead} of ${size}`}
+    >
+      <circle cx={CENTER} cy={CENTER} r={RADIUS} fill="none" className="stroke-accent" strokeWidth={1.5} />
+
+      {Array.from({ length: size }, (_, index) => {
+        const slot = reversed ? size - index : index + 1;
+        const { x, y } = positionOf(slot);
+        const isCounted = index < bead;
+        const isCurrent = index === bead;
+        return (
+          <circle
+            key={index}
+            cx={x}
+            cy={y}
+            r={isCurrent ? beadRadius * 1.35 : beadRadius}
+            className={cn(
+              'transition-all duration-300',
+              isCounted ? 'fill-primary' : 'fill-muted stroke-border',
+              isCurrent && 'fill-accent animate-pulse'
+            )}
+          />
+        );
+      })}
+
+      {/* Sumeru (guru bead) */}
+      <circle cx={sumeru.x} cy={sumeru.y + beadRadius} r={beadRadius * 2} className="fill-secondary" />
+      <line
+        x1={sumeru.x}
+        y1={sumeru.y + beadRadius * 3}
+        x2={sumeru.x}
+        y2={VIEW_BOX - 2}
+        className="stroke-secondary"
+        strokeWidth={3}
+        strokeLinecap="round"
+      />
+
+      <text x={CENTER} y={CENTER - 6} textAnchor="middle" className="fill-foreground text-4xl font-bold">
+        {bead}
+      </text>
+      <text x={CENTER} y={CENTER + 18} textAnchor="middle" className="fill-muted-foreground text-sm">
+        of {size} beads
+      </text>
+    </svg>
+  );
+}
@@ -0,0 +1,49 @@
+import { cn } from '@/lib/utils';
+import type { DiffSegment, DiffStatus } from '@/lib/diff';
+
+const STATUS_STYLES: Record<DiffStatus, string> = {
+  correct: 'text-green-700',
+  wrong: 'text-destructive bg-destructive/15 rounded-sm',
+  missing: 'text-destructive underline decoration-dotted decoration-2 underline-offset-4',
+  extra: 'text-destructive/70 line-through',
+  pending: 'text-muted-foreground',
+};
+
+const STATUS_LABELS: Record<Exclude<DiffStatus, 'pending'>, string> = {
+  correct: 'Correct',
+  wrong: 'Wrong',
+  missing: 'Missing',
+  extra: 'Extra',
+};
+
+interface MantraDiffProps {
+  segments: DiffSegment[];
+  className?: string;
+}
+
+export default function MantraDiff({ segments, className }: MantraDiffProps) {
+  return (
+    <div className="space-y-2">
+      <p className={cn('whitespace-pre-wrap', className)}>
+        {segments.map((segment, index) => {
+          const text = segment.status === 'extra' ? segment.actual : segment.expected;
+          const title = segment.status === 'wrong'
+            ? `Typed "${segment.actual}" instead of "${segment.expected}"`
+            : undefined;
+          return (
+            <span key={index} className={STATUS_STYLES[segment.status]} title={title}>
+              {text}
+            </span>
+          );
+        })}
+      </p>
+      <div className="flex flex-wrap justify-center gap-3 text-xs">
+        {(Object.keys(STATUS_LABELS) as Array<keyof typeof STATUS_LABELS>).map((status) => (
+          <span key={status} className={STATUS_STYLES[status]}>
+            {STATUS_LABELS[status]}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,194 +1,431 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Slider } from '@/components/ui/slider';
-import { Trophy, Award, Star, Languages, Volume2, Play, Pause, RotateCcw } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Languages, Volume2, BookOpen, Keyboard, Flame, BarChart3, Trophy } from 'lucide-react';
+import { ToastAction } from '@/components/ui/toast';
 import { useToast } from '@/hooks/use-toast';
+import { useProfiles } from '@/hooks/use-profiles';
+import { usePauseAt } from '@/hooks/use-audio-time';
+import { MANTRAS, DEFAULT_MANTRA_ID, getMantra, getMantraPhrases, getMantraText, getMantraWords } from '@/lib/mantras';
+import { SCRIPTS, getScript, type Script } from '@/lib/scripts';
+import { summarizeDiff } from '@/lib/diff';
+import { measureAccuracy, getMantraDiff, getTypingSuggestion, matchHinglishWords, recalledWords } from '@/lib/accuracy';
+import { devanagariToRoman, romanToDevanagari } from '@/lib/transliteration';
+import { loadSessionSettings, saveSessionSettings, sessionPoints, type SessionSettings } from '@/lib/session-settings';
+import SessionSettingsDialog from '@/components/SessionSettingsDialog';
+import { loadProgress, saveProgress, type UserProgress } from '@/lib/progress';
+import { advanceMala, type MalaProgress } from '@/lib/mala';
+import { logRepetition, logSession, mergeHistory, recordsSince } from '@/lib/history';
+import { getPracticeStore, loadPracticeHistory } from '@/lib/practice-store';
+import { calculateStreaks } from '@/lib/streaks';
+import MalaRing from '@/components/MalaRing';
+import MantraDiff from '@/components/MantraDiff';
+import KaraokeMantra from '@/components/KaraokeMantra';
+import { phraseSegment, wordStartTime } from '@/lib/audio-timings';
+import type { RepeatMode } from '@/lib/playback';
+import { MASTERED_BOX, getMantraRecall, gradeRecall, isHidden } from '@/lib/recall';
+import { dueMantras, todaysPractice, type PracticeItem } from '@/lib/scheduler';
+import TodaysPractice from '@/components/TodaysPractice';
+import ChantPlayer from '@/components/ChantPlayer';
+import ProfileSwitcher from '@/components/ProfileSwitcher';
+import AchievementIcon from '@/components/AchievementIcon';
+import CertificateDialog from '@/components/CertificateDialog';
+import { buildCertificateData, type CertificateData } from '@/lib/certificate';
+import { getLevel, getLevelCurve, levelName } from '@/lib/levels';
+import {
+  METRIC_UNITS,
+  TIER_STYLES,
+  collectAchievementStats,
+  evaluateAchievements,
+  newlyUnlocked,
+  nextAchievements,
+  resolveAchievementId,
+} from '@/lib/achievements';
+import TypingMetricsCard from '@/components/TypingMetricsCard';
+import ScoreBreakdownCard from '@/components/ScoreBreakdownCard';
+import { LENIENT_MIN_ACCURACY, isAccepted, scoreCompletionBonus, scoreRepetition, sessionTotal, type ScoreBreakdown } from '@/lib/scoring';
+import { averageMetric, computeTypingMetrics, createKeystrokeLog, recordInput, recordKey, type TypingMetrics } from '@/lib/typing-metrics';
 import logoImage from '@/assets/logo.png';
 
-// Mantra texts
-const MANTRAS = {
-  hindi: "ॐ भूर्भुवः स्वः तत्सवितुर्वरेण्यम् भर्गो देवस्य धीमहि धियो यो नः प्रचोदयात्",
-  hinglish: "Om bhur bhuvah swah tat savitur varenyam bhargo devasya dheemahi dhiyo yo nah prachodayat"
-};
-
-// Achievement levels
-const ACHIEVEMENTS = [
-  { points: 100, title: "Sanskrit Learner", icon: Star, badge: "Beginner" },
-  { points: 500, title: "Bronze Mantra Medal", icon: Award, badge: "Bronze" },
-  { points: 1000, title: "Divine Devotee Certificate", icon: Trophy, badge: "Divine" }
-];
-
-// Auto-correction function
-const autoCorrect = (input: string, target: string, language: string): string => {
-  let corrected = input;
-  
-  // Handle ॐ variations
-  if (language === 'hindi') {
-    corrected = corrected.replace(/\b(om|aum|OM|AUM)\b/g, 'ॐ');
-  } else {
-    corrected = corrected.replace(/\b(aum|AUM)\b/g, 'Om');
-  }
-  
-  return corrected;
-};
-
-// Get typing suggestions
-const getTypingSuggestion = (input: string, target: string): string => {
-  const targetWords = target.split(' ');
-  const inputWords = input.trim().split(' ');
-  
-  // If no input, suggest the first word
-  if (!input.trim()) {
-    return targetWords[0];
-  }
-  
-  if (inputWords.length <= targetWords.length) {
-    const currentWordIndex = inputWords.length - 1;
-    const currentWord = inputWords[currentWordIndex] || '';
-    const targetWord = targetWords[currentWordIndex] || '';
-    
-    if (targetWord.startsWith(currentWord) && currentWord.length > 0) {
-      return targetWord;
-    }
-  }
-  
-  return '';
-};
-
-// Check if typing matches target (allowing for auto-corrections and minor mistakes)
-const checkAccuracy = (input: string, target: string, language: string): number => {
-  const corrected = autoCorrect(input, target, language);
-  const targetNormalized = target.replace(/[।॥]/g, '').toLowerCase().trim();
-  const inputNormalized = corrected.replace(/[।॥]/g, '').toLowerCase().trim();
-  
-  // Exact match
-  if (inputNormalized === targetNormalized) return 100;
-  
-  // Allow minor mistakes - check if 90% of characters match
-  const targetChars = targetNormalized.replace(/\s/g, '');
-  const inputChars = inputNormalized.replace(/\s/g, '');
-  
-  if (inputChars.length >= targetChars.length * 0.8) {
-    let matches = 0;
-    const minLength = Math.min(targetChars.length, inputChars.length);
-    
-    for (let i = 0; i < minLength; i++) {
-      if (targetChars[i] === inputChars[i]) matches++;
-    }
-    
-    const similarity = (matches / targetChars.length) * 100;
-    if (similarity >= 85) return 100; // Accept if 85% similar
-  }
-  
-  // Calculate partial accuracy for incomplete typing
-  const words = targetNormalized.split(' ');
-  const inputWords = inputNormalized.split(' ');
-  let correct = 0;
-  
-  for (let i = 0; i < Math.min(words.length, inputWords.length); i++) {
-    if (words[i] === inputWords[i]) correct++;
-  }
-  
-  return Math.floor((correct / words.length) * 100);
-};
-
-interface UserProgress {
-  totalPoints: number;
-  achievements: string[];
-  completedSessions: number;
-}
+// Typing only, typing with a mala bead per accepted repetition, tap-to-count
+// japa, typing the chant phrase by phrase with the text hidden, or typing
+// from memory with more words hidden after each repetition
+type PracticeMode = 'typing' | 'mala' | 'count' | 'dictation' | 'memorise';
 
 export default function MantraTrainer() {
-  const [language, setLanguage] = useState<'hindi' | 'hinglish'>('hindi');
+  const [mantraId, setMantraId] = useState(DEFAULT_MANTRA_ID);
+  const [language, setLanguage] = useState<Script>('hindi');
   const [currentInput, setCurrentInput] = useState('');
+  const [phoneticInput, setPhoneticInput] = useState(false);
+  const [romanInput, setRomanInput] = useState('');
   const [repetitionCount, setRepetitionCount] = useState(0);
-  const [userProgress, setUserProgress] = useState<UserProgress>({ totalPoints: 0, achievements: [], completedSessions: 0 });
+  const [userProgress, setUserProgress] = useState<UserProgress>(loadProgress);
+  const [practiceMode, setPracticeMode] = useState<PracticeMode>('typing');
+  const [sessionSettings, setSessionSettings] = useState<SessionSettings>(loadSessionSettings);
   const [isCompleted, setIsCompleted] = useState(false);
   const [suggestion, setSuggestion] = useState('');
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [playbackSpeed, setPlaybackSpeed] = useState([1]);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const sessionStartRef = useRef<string | null>(null);
+  // Set once a mantra is chosen, so the history loading later does not switch it
+  const mantraPickedRef = useRef(false);
+  // The history loads after the first render, so it changes mantra through the latest handler
+  const mantraChangeRef = useRef<(id: string) => void>();
+  const sessionAttemptsRef = useRef(0);
+  const sessionMetricsRef = useRef<TypingMetrics[]>([]);
+  const keystrokesRef = useRef(createKeystrokeLog());
+  const [certificate, setCertificate] = useState<CertificateData | null>(null);
+  const sessionScoresRef = useRef<Array<{ accuracy: number; points: number }>>([]);
+  const [lastRepetition, setLastRepetition] = useState<{
+    metrics: TypingMetrics;
+    repetition: number;
+    score: ScoreBreakdown;
+    bonus?: ScoreBreakdown;
+  } | null>(null);
   const audioRef = useRef<HTMLAudioElement>(null);
+  // Dictation: the phrase being listened to, and how many input words
+  // answered the phrases before it
+  const [dictation, setDictation] = useState({ phrase: 0, answeredWords: 0 });
+  const phraseEndRef = useRef<number | null>(null);
+  // Repeat mode of the chant player
+  const [repeatMode, setRepeatMode] = useState<RepeatMode>('track');
+  // Dictation: pause at the end of the phrase being played
+  usePauseAt(audioRef, phraseEndRef);
+  // Phrase picked from today's practice queue, marked while memorising
+  const [focusPhrase, setFocusPhrase] = useState<number | null>(null);
   const { toast } = useToast();
+  const { activeProfile } = useProfiles();
+
+  const mantra = getMantra(mantraId);
+  const scriptInfo = getScript(language);
+  const targetWords = getMantraWords(mantra, language);
+  const target = getMantraText(mantra, language);
+  const isPhonetic = phoneticInput && language === 'hindi';
+  const phrases = useMemo(() => getMantraPhrases(mantra, language), [mantra, language]);
+  const isDictation = practiceMode === 'dictation';
+  const isListening = isDictation && dictation.phrase < phrases.length;
+  const isMemorising = practiceMode === 'memorise';
+  const mantraRecall = getMantraRecall(userProgress.recall, mantraId, targetWords.length);
+
+  // Live grapheme-level comparison against the selected mantra
+  const diffSegments = useMemo(
+    () => getMantraDiff(currentInput, target, language),
+    [currentInput, target, language]
+  );
 
-  // Load progress from localStorage
+  // Hinglish words accepted under a different spelling than the target
+  const spellingVariants = useMemo(
+    () => (language === 'hinglish'
+      ? matchHinglishWords(currentInput, target, true).filter(match => match.status === 'variant')
+      : []),
+    [currentInput, target, language]
+  );
+
+  // Save progress totals to localStorage. They are read while initialising
+  // state, so the first save never overwrites stored progress with defaults.
   useEffect(() => {
-    const saved = localStorage.getItem('mantra-progress');
-    if (saved) {
-      setUserProgress(JSON.parse(saved));
-    }
+    saveProgress(userProgress);
+  }, [userProgress]);
+
+  // Load history and achievements from the practice store, keeping anything
+  // recorded before it was ready
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([loadPracticeHistory(), getPracticeStore().then(store => store.getAchievements())])
+      .then(([history, achievements]) => {
+        if (cancelled) return;
+        // Start on the first mantra due today rather than a fixed one, unless
+        // the user has already chosen one or started typing
+        const [first] = dueMantras(history);
+        if (first && !mantraPickedRef.current && !sessionStartRef.current) {
+          mantraChangeRef.current?.(first.mantraId);
+        }
+        setUserProgress(prev => ({
+          ...prev,
+          history: mergeHistory(history, prev.history),
+          achievements: [...new Set([...achievements.map(achievement => resolveAchievementId(achievement.id)), ...prev.achievements])],
+        }));
+      })
+      .catch(error => console.error('Could not load practice history:', error));
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
-  // Save progress to localStorage
+  // Save session settings to localStorage
   useEffect(() => {
-    localStorage.setItem('mantra-progress', JSON.stringify(userProgress));
-  }, [userProgress]);
+    saveSessionSettings(sessionSettings);
+  }, [sessionSettings]);
+
+  const streaks = useMemo(() => calculateStreaks(userProgress.history), [userProgress.history]);
+  const achievementProgress = useMemo(
+    () => evaluateAchievements(collectAchievementStats(userProgress), userProgress.achievements),
+    [userProgress]
+  );
+  const upcomingAchievements = nextAchievements(achievementProgress, 3);
+  const practiceQueue = useMemo(
+    () => todaysPractice(userProgress.history, userProgress.recall),
+    [userProgress.history, userProgress.recall]
+  );
+  const levelCurve = getLevelCurve(sessionSettings.levelCurve);
+  const level = getLevel(userProgress.totalPoints, levelCurve);
+
+  // Save new progress, unlocking any achievements it reaches
+  const commitProgress = useCallback((newProgress: UserProgress) => {
+    const newLevel = getLevel(newProgress.totalPoints, levelCurve);
+    if (newLevel.level > getLevel(userProgress.totalPoints, levelCurve).level) {
+      toast({
+        title: `🪷 Level ${newLevel.level} Reached!`,
+        description: `You are now ${newLevel.name} – ${newLevel.meaning}`,
+      });
+    }
+
+    // Achievements last, so their certificate action is what stays on screen
+    const unlockedNow = newlyUnlocked(collectAchievementStats(newProgress), newProgress.achievements);
+    unlockedNow.forEach(achievement => {
+      const certificate = buildCertificateData(activeProfile.name, achievement, newProgress.history);
+      toast({
+        title: "🏆 Achievement Unlocked!",
+        description: `${achievement.title} - ${achievement.description}!`,
+        action: (
+          <ToastAction altText="View certificate" onClick={() => setCertificate(certificate)}>
+            Certificate
+          </ToastAction>
+        ),
+      });
+    });
+    const newAchievements = [...newProgress.achievements, ...unlockedNow.map(achievement => achievement.id)];
+
+    setUserProgress({ ...newProgress, achievements: newAchievements });
+
+    // Store the new records and unlocks
+    const added = recordsSince(userProgress.history, newProgress.history);
+    const unlockedAt = new Date().toISOString();
+    const unlocked = newAchievements
+      .filter(id => !userProgress.achievements.includes(id))
+      .map(id => ({ id, unlockedAt }));
+    getPracticeStore()
+      .then(store => Promise.all([
+        store.addRepetitions(added.repetitions),
+        store.addSessions(added.sessions),
+        store.unlockAchievements(unlocked),
+      ]))
+      .catch(error => console.error('Could not save practice history:', error));
+  }, [userProgress, levelCurve, activeProfile.name, toast]);
+
+  // Move the mala forward by one bead
+  const moveBead = useCallback((current: MalaProgress): MalaProgress => {
+    const { mala, reachedSumeru, completedMala } = advanceMala(current, sessionSettings.malaSize);
+
+    if (completedMala) {
+      toast({
+        title: "📿 Mala Complete!",
+        description: `${mala.completedMalas} mala${mala.completedMalas === 1 ? '' : 's'} of 108 japa completed`,
+      });
+    } else if (reachedSumeru) {
+      toast({
+        title: "🔱 Sumeru Reached",
+        description: "Turn the mala around and continue without crossing the guru bead",
+      });
+    }
+    return mala;
+  }, [sessionSettings.malaSize, toast]);
+
+  // Count-only japa: one bead and one logged repetition per tap
+  const handleCountBead = useCallback(() => {
+    commitProgress({
+      ...userProgress,
+      mala: moveBead(userProgress.mala),
+      history: logRepetition(userProgress.history, { mantraId, script: language, source: 'count' }),
+    });
+  }, [userProgress, mantraId, language, moveBead, commitProgress]);
 
-  // Initialize suggestion on mount and language change
+  // Count-only japa: the spacebar advances the mala
+  useEffect(() => {
+    if (practiceMode !== 'count') return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || e.repeat) return;
+      // Let focused form controls and buttons handle their own spacebar
+      if ((e.target as HTMLElement).closest('input, textarea, button, [role="button"], [role="tab"]')) return;
+      e.preventDefault();
+      handleCountBead();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [practiceMode, handleCountBead]);
+
+  // Initialize suggestion on mount, mantra and language change
   useEffect(() => {
     if (!currentInput) {
-      const target = MANTRAS[language];
-      const initialSuggestion = getTypingSuggestion('', target);
+      const initialSuggestion = getTypingSuggestion('', targetWords);
       setSuggestion(initialSuggestion);
     }
-  }, [language, currentInput]);
+  }, [targetWords, currentInput]);
 
   const handleInputChange = (value: string) => {
     setCurrentInput(value);
-    
-    const target = MANTRAS[language];
+    recordInput(keystrokesRef.current, value);
+    if (!sessionStartRef.current) {
+      sessionStartRef.current = new Date().toISOString();
+    }
     
     // Update suggestion
-    const currentSuggestion = getTypingSuggestion(value, target);
+    const currentSuggestion = getTypingSuggestion(value, targetWords);
     setSuggestion(currentSuggestion);
   };
 
+  // Phonetic mode: the textarea holds Roman keystrokes, the mantra is checked in Devanagari
+  const handleRomanChange = (value: string) => {
+    setRomanInput(value);
+    handleInputChange(romanToDevanagari(value));
+  };
+
+  const clearInput = () => {
+    setCurrentInput('');
+    setRomanInput('');
+    setDictation({ phrase: 0, answeredWords: 0 });
+    keystrokesRef.current = createKeystrokeLog();
+  };
+
+  const handlePhoneticToggle = (checked: boolean) => {
+    setPhoneticInput(checked);
+    clearInput();
+    textareaRef.current?.focus();
+  };
+
+  const handleMantraChange = (id: string) => {
+    mantraPickedRef.current = true;
+    setMantraId(id);
+    setFocusPhrase(null);
+    resetSession();
+    audioRef.current?.pause();
+    if (!getMantra(id).audio?.timings && practiceMode === 'dictation') {
+      setPracticeMode('typing');
+    }
+  };
+  mantraChangeRef.current = handleMantraChange;
+
+  // A difficult phrase is practised by memorising its mantra
+  const handleQueueSelect = (item: PracticeItem) => {
+    mantraPickedRef.current = true;
+    if (item.mantraId !== mantraId) handleMantraChange(item.mantraId);
+    if (item.kind === 'phrase') {
+      handlePracticeModeChange('memorise');
+      setFocusPhrase(item.phrase);
+    } else {
+      setFocusPhrase(null);
+    }
+  };
+
+  // Typed text means something else in dictation, so start afresh when entering or leaving it
+  const handlePracticeModeChange = (mode: PracticeMode) => {
+    if (mode === 'dictation' || practiceMode === 'dictation') {
+      clearInput();
+      phraseEndRef.current = null;
+      audioRef.current?.pause();
+    }
+    setPracticeMode(mode);
+  };
+
   const handleSubmit = () => {
-    const target = MANTRAS[language];
-    const accuracy = checkAccuracy(currentInput, target, language);
-    
-    if (accuracy === 100) {
+    const accuracy = measureAccuracy(currentInput, target, language);
+    const accepted = isAccepted(accuracy, sessionSettings.scoringMode);
+    sessionAttemptsRef.current++;
+
+    // Memorisation: grade the hidden words and hide or bring back words
+    const recall = isMemorising
+      ? gradeRecall(mantraRecall, recalledWords(currentInput, targetWords, language), accepted)
+      : null;
+
+    if (accepted) {
       // Completed one repetition
       const newCount = repetitionCount + 1;
+      const sessionDone = newCount >= sessionSettings.repetitionTarget;
       setRepetitionCount(newCount);
       setSuggestion(''); // Clear suggestion on completion
-      
-      if (newCount === 3) {
-        // Completed 3 repetitions - award points
-        const newProgress = {
-          ...userProgress,
-          totalPoints: userProgress.totalPoints + 10,
-          completedSessions: userProgress.completedSessions + 1
+
+      const metrics = computeTypingMetrics(keystrokesRef.current, targetWords);
+      keystrokesRef.current = createKeystrokeLog();
+      sessionMetricsRef.current.push(metrics);
+
+      const history = logRepetition(userProgress.history, { mantraId, script: language, source: 'typed', accuracy, metrics });
+      const streakDays = calculateStreaks(history).current;
+      const score = scoreRepetition(sessionSettings.pointsPerRepetition, {
+        accuracy,
+        aksharasPerMinute: metrics.aksharasPerMinute,
+        streakDays,
+      });
+      // Totals are credited as whole points, so each repetition adds what it
+      // raises the rounded session total by
+      const earnedBefore = sessionTotal(sessionScoresRef.current.map(item => item.points));
+      sessionScoresRef.current.push({ accuracy, points: score.points });
+      const bonus = sessionDone
+        ? scoreCompletionBonus(sessionSettings.completionBonus, {
+          accuracies: sessionScoresRef.current.map(item => item.accuracy),
+          aksharasPerMinute: averageMetric(sessionMetricsRef.current.map(item => item.aksharasPerMinute)) ?? 0,
+          streakDays,
+        })
+        : undefined;
+      setLastRepetition({ metrics, repetition: newCount, score, bonus });
+      const sessionEarned = sessionTotal([...sessionScoresRef.current.map(item => item.points), bonus?.points ?? 0]);
+
+      const earned = sessionEarned - earnedBefore;
+      let newProgress: UserProgress = {
+        ...userProgress,
+        totalPoints: userProgress.totalPoints + earned,
+        history,
+      };
+
+      if (sessionDone) {
+        const startedAt = sessionStartRef.current ?? new Date().toISOString();
+        const sessionMetrics = sessionMetricsRef.current;
+        newProgress = {
+          ...newProgress,
+          completedSessions: newProgress.completedSessions + 1,
+          history: logSession(newProgress.history, {
+            startedAt,
+            mantraId,
+            script: language,
+            repetitions: newCount,
+            points: sessionEarned,
+            accuracy: Math.round((newCount / sessionAttemptsRef.current) * 100),
+            charactersPerMinute: averageMetric(sessionMetrics.map(item => item.aksharasPerMinute)),
+            wordsPerMinute: averageMetric(sessionMetrics.map(item => item.wordsPerMinute)),
+          }),
         };
-        
-        // Check for new achievements
-        const newAchievements = [...userProgress.achievements];
-        ACHIEVEMENTS.forEach(achievement => {
-          if (newProgress.totalPoints >= achievement.points && !newAchievements.includes(achievement.title)) {
-            newAchievements.push(achievement.title);
-            toast({
-              title: "🏆 Achievement Unlocked!",
-              description: `${achievement.title} - ${achievement.points} points reached!`,
-            });
-          }
-        });
-        
-        newProgress.achievements = newAchievements;
-        setUserProgress(newProgress);
+        sessionStartRef.current = null;
+        sessionAttemptsRef.current = 0;
+        sessionMetricsRef.current = [];
+        sessionScoresRef.current = [];
+      }
+
+      if (practiceMode === 'mala') {
+        newProgress = { ...newProgress, mala: moveBead(newProgress.mala) };
+      }
+
+      if (recall) {
+        newProgress = { ...newProgress, recall: { ...newProgress.recall, [mantraId]: recall } };
+      }
+
+      if (sessionDone) {
         setIsCompleted(true);
         
         toast({
           title: "🎉 Session Complete!",
-          description: "You earned 10 points for completing 3 repetitions!",
+          description: `You earned ${sessionEarned} points for completing ${sessionSettings.repetitionTarget} repetitions!`,
         });
         
         setTimeout(() => {
-          setCurrentInput('');
+          clearInput();
           setRepetitionCount(0);
           setIsCompleted(false);
           setSuggestion('');
@@ -197,22 +434,85 @@ export default function MantraTrainer() {
         // Clear for next repetition
         toast({
           title: "✅ Repetition Complete!",
-          description: `${newCount}/3 repetitions completed`,
+          description: `${newCount}/${sessionSettings.repetitionTarget} repetitions completed · +${score.points} points`,
         });
         setTimeout(() => {
-          setCurrentInput('');
+          clearInput();
           setSuggestion('');
         }, 1000);
       }
+
+      // After the repetition toast, so an achievement toast and its
+      // certificate action are the ones left showing
+      commitProgress(newProgress);
     } else {
+      const summary = summarizeDiff(diffSegments);
+      const issues = [
+        summary.wrong && `${summary.wrong} wrong`,
+        summary.missing && `${summary.missing} missing`,
+        summary.extra && `${summary.extra} extra`,
+        summary.pending && `${summary.pending} not yet typed`,
+      ].filter(Boolean);
+      if (accuracy >= LENIENT_MIN_ACCURACY) {
+        issues.unshift(`${accuracy}% accurate – strict scoring accepts only exact repetitions`);
+      }
+      if (recall) {
+        const shownAgain = mantraRecall.words.filter((word, index) => isHidden(word) && !isHidden(recall.words[index])).length;
+        if (shownAgain > 0) issues.push(`${shownAgain} hidden word${shownAgain === 1 ? '' : 's'} shown again`);
+        setUserProgress(prev => ({ ...prev, recall: { ...prev.recall, [mantraId]: recall } }));
+      }
+      const countReset = sessionSettings.resetOnFail && repetitionCount > 0;
+      if (countReset) {
+        setRepetitionCount(0);
+        issues.push('repetition count reset to 0');
+      }
       toast({
         title: "Please complete the mantra",
-        description: "Type the complete mantra before submitting",
+        description: issues.length > 0
+          ? `${issues.join(', ')} – ${isMemorising ? 'try again from memory' : 'check the highlighted letters in the mantra above'}`
+          : "Type the complete mantra before submitting",
         variant: "destructive"
       });
     }
   };
 
+  // Dictation: play one phrase of the chant, stopping at its last word
+  const playPhrase = (index: number) => {
+    const segment = mantra.audio && phrases[index] ? phraseSegment(mantra.audio, phrases[index]) : null;
+    if (!audioRef.current || !segment) return;
+    setRepeatMode('track');
+    audioRef.current.currentTime = segment.start;
+    phraseEndRef.current = segment.end;
+    audioRef.current.play();
+  };
+
+  // Dictation: check the words typed since the last phrase before playing the next.
+  // The whole mantra is then submitted as an ordinary repetition.
+  const checkPhrase = () => {
+    const phrase = phrases[dictation.phrase];
+    const inputWords = currentInput.trim().split(/\s+/).filter(Boolean);
+    const answer = inputWords.slice(dictation.answeredWords).join(' ');
+    const accuracy = measureAccuracy(answer, phrase.words.join(' '), language);
+
+    if (!isAccepted(accuracy, sessionSettings.scoringMode)) {
+      toast({
+        title: "Listen again",
+        description: `Phrase ${dictation.phrase + 1} is ${accuracy}% accurate – correct it after hearing it once more`,
+        variant: "destructive"
+      });
+      playPhrase(dictation.phrase);
+      return;
+    }
+
+    const next = dictation.phrase + 1;
+    setDictation({ phrase: next, answeredWords: inputWords.length });
+    if (next < phrases.length) {
+      playPhrase(next);
+    } else {
+      handleSubmit();
+    }
+  };
+
   const handlePaste = (e: React.ClipboardEvent) => {
     e.preventDefault();
     toast({
@@ -223,78 +523,54 @@ export default function MantraTrainer() {
   };
 
   const resetSession = () => {
-    setCurrentInput('');
+    sessionStartRef.current = null;
+    sessionAttemptsRef.current = 0;
+    sessionMetricsRef.current = [];
+    sessionScoresRef.current = [];
+    setLastRepetition(null);
+    clearInput();
     setRepetitionCount(0);
     setIsCompleted(false);
   };
 
   const handleSuggestionClick = () => {
     if (suggestion) {
-      const words = currentInput.trim().split(' ');
-      if (!currentInput.trim()) {
+      // In phonetic mode the suggestion is inserted as its ITRANS spelling
+      const source = isPhonetic ? romanInput : currentInput;
+      const word = isPhonetic ? devanagariToRoman(suggestion, 'itrans') : suggestion;
+      const words = source.trim().split(' ');
+      let nextInput: string;
+      if (!source.trim()) {
         // If no input, just use the suggestion
-        setCurrentInput(suggestion + ' ');
+        nextInput = word + ' ';
       } else {
         // Replace the last incomplete word with the suggestion
-        words[words.length - 1] = suggestion;
-        setCurrentInput(words.join(' ') + ' ');
+        words[words.length - 1] = word;
+        nextInput = words.join(' ') + ' ';
+      }
+
+      // Updates the suggestion for the next word too
+      if (isPhonetic) {
+        handleRomanChange(nextInput);
+      } else {
+        handleInputChange(nextInput);
       }
-      
-      // Update suggestion for next word
-      const target = MANTRAS[language];
-      const newSuggestion = getTypingSuggestion(words.join(' ') + ' ', target);
-      setSuggestion(newSuggestion);
       
       // Keep focus on textarea
       textareaRef.current?.focus();
     }
   };
 
-  // Audio player controls
-  const toggleAudio = () => {
-    if (!audioRef.current) return;
-    
-    if (isPlaying) {
-      audioRef.current.pause();
-      setIsPlaying(false);
-    } else {
-      audioRef.current.play();
-      setIsPlaying(true);
+  // Jump the chant to a word of the displayed mantra
+  const seekToWord = (word: number) => {
+    if (!audioRef.current || !mantra.audio) return;
+    const start = wordStartTime(mantra.audio, word, audioRef.current.currentTime);
+    if (start !== null) {
+      setRepeatMode('track');
+      audioRef.current.currentTime = start;
     }
   };
 
-  const handleSpeedChange = (value: number[]) => {
-    setPlaybackSpeed(value);
-    if (audioRef.current) {
-      audioRef.current.playbackRate = value[0];
-    }
-  };
-
-  const resetAudio = () => {
-    if (audioRef.current) {
-      audioRef.current.currentTime = 0;
-    }
-  };
-
-  // Initialize audio when component mounts
-  useEffect(() => {
-    if (audioRef.current) {
-      audioRef.current.loop = true;
-      audioRef.current.playbackRate = playbackSpeed[0];
-      audioRef.current.onended = () => setIsPlaying(false);
-      audioRef.current.onpause = () => setIsPlaying(false);
-      audioRef.current.onplay = () => setIsPlaying(true);
-    }
-  }, []);
-
-  useEffect(() => {
-    if (audioRef.current) {
-      audioRef.current.playbackRate = playbackSpeed[0];
-    }
-  }, [playbackSpeed]);
-
-  const progressPercentage = Math.min((userProgress.totalPoints / 1000) * 100, 100);
-
   return (
     <div className="min-h-screen bg-gradient-divine relative overflow-hidden">
       {/* Background Image */}
@@ -331,189 +607,381 @@ export default function MantraTrainer() {
           <p className="text-lg text-muted-foreground mt-2">
             Practice the sacred Gayatri Mantra with devotion
           </p>
+          <div className="flex justify-center mt-4">
+            <ProfileSwitcher />
+          </div>
         </div>
 
-        {/* Language Selector */}
-        <div className="flex justify-center mb-6">
-          <Select value={language} onValueChange={(value: 'hindi' | 'hinglish') => setLanguage(value)}>
-            <SelectTrigger className="w-48 bg-card border-accent">
+        {/* Today's Practice */}
+        <TodaysPractice queue={practiceQueue} mantraId={mantraId} onSelect={handleQueueSelect} />
+
+        {/* Mantra & Language Selectors */}
+        <div className="flex flex-wrap justify-center gap-4 mb-6">
+          <Select value={mantraId} onValueChange={handleMantraChange}>
+            <SelectTrigger className="w-64 bg-card border-accent">
+              <BookOpen className="w-4 h-4 mr-2" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MANTRAS.map((item) => (
+                <SelectItem key={item.id} value={item.id}>{item.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={language} onValueChange={(value: Script) => setLanguage(value)}>
+            <SelectTrigger className="w-56 bg-card border-accent">
               <Languages className="w-4 h-4 mr-2" />
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="hindi">Hindi (देवनागरी)</SelectItem>
-              <SelectItem value="hinglish">Hinglish (Roman)</SelectItem>
+              {SCRIPTS.map((script) => (
+                <SelectItem key={script.id} value={script.id}>{script.label}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
+        <p className="text-xs text-muted-foreground text-center -mt-4 mb-6">{scriptInfo.rule}</p>
 
         {/* Progress Section */}
         <Card className="mb-6 p-6 bg-card/80 backdrop-blur-sm shadow-peaceful">
           <div className="text-center mb-4">
-            <h3 className="text-xl font-semibold">Journey to 1,000 Points</h3>
-            <p className="text-sm text-muted-foreground">Current: {userProgress.totalPoints} points</p>
+            <h3 className="text-xl font-semibold">Level {level.level} · {level.name}</h3>
+            <p className="text-sm text-muted-foreground">
+              {level.meaning} · Current: {userProgress.totalPoints} points
+            </p>
+          </div>
+
+          {/* Daily Streak */}
+          <div className="flex flex-wrap justify-center items-center gap-2 mb-4">
+            <Badge variant="outline" className="flex items-center gap-1 border-accent">
+              <Flame className="w-3 h-3 text-primary" />
+              {streaks.current}-day streak
+            </Badge>
+            <Badge variant="outline" className="border-accent">
+              Best: {streaks.longest} day{streaks.longest === 1 ? '' : 's'}
+            </Badge>
+            <Badge
+              variant={streaks.practisedToday ? "default" : "secondary"}
+              className={streaks.practisedToday ? 'bg-gradient-spiritual' : ''}
+            >
+              {streaks.practisedToday ? "✓ Practised today" : "Not practised yet today"}
+            </Badge>
           </div>
           <Progress 
-            value={progressPercentage} 
+            value={level.progress * 100} 
             className="h-4 mb-4 transition-all duration-1000 ease-out" 
           />
-          <div className="text-xs text-muted-foreground text-center">
-            {progressPercentage.toFixed(1)}% complete
+          <div className="text-xs text-muted-foreground text-center mb-4">
+            {level.nextLevelPoints - userProgress.totalPoints} points to Level {level.level + 1} · {levelName(level.level + 1).name}
           </div>
           
           {/* Achievements */}
           <div className="flex flex-wrap gap-2 justify-center">
-            {ACHIEVEMENTS.map((achievement) => {
-              const isEarned = userProgress.achievements.includes(achievement.title);
-              const IconComponent = achievement.icon;
-              return (
-                <Badge 
-                  key={achievement.title}
-                  variant={isEarned ? "default" : "secondary"}
-                  className={`flex items-center gap-1 ${isEarned ? 'bg-gradient-spiritual' : ''}`}
-                >
-                  <IconComponent className="w-3 h-3" />
-                  {achievement.title}
-                  {isEarned && " ✓"}
-                </Badge>
-              );
-            })}
+            {achievementProgress.filter(item => item.unlocked).map(({ achievement }) => (
+              <Badge
+                key={achievement.id}
+                className={`flex items-center gap-1 ${TIER_STYLES[achievement.tier].className}`}
+              >
+                {achievement.title} ✓
+              </Badge>
+            ))}
           </div>
+          {upcomingAchievements.length > 0 && (
+            <div className="mt-4 grid gap-3 sm:grid-cols-3">
+              {upcomingAchievements.map(({ achievement, current, ratio }) => (
+                <div key={achievement.id} className="flex items-center gap-2">
+                  <AchievementIcon icon={achievement.icon} tier={achievement.tier} locked className="h-8 w-8" />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-xs font-medium truncate" title={achievement.description}>{achievement.title}</div>
+                    <Progress value={ratio * 100} className="h-1.5 my-1" />
+                    <div className="text-[10px] text-muted-foreground">
+                      {Math.floor(current)} / {achievement.goal} {METRIC_UNITS[achievement.metric]}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
         </Card>
 
         {/* Mantra Display */}
         <Card className="mb-6 p-6 bg-card/80 backdrop-blur-sm shadow-peaceful">
           <div className="text-center">
-            <h3 className="text-lg font-semibold mb-3">Gayatri Mantra</h3>
-            <p className={`text-xl leading-relaxed ${language === 'hindi' ? 'font-sanskrit' : 'font-mantra'}`}>
-              {MANTRAS[language]}
-            </p>
+            <h3 className="text-lg font-semibold mb-1">{mantra.title}</h3>
+            <p className="text-xs text-muted-foreground mb-3">{mantra.description}</p>
+            {isListening ? (
+              <p className={`text-xl leading-relaxed ${scriptInfo.fontClass}`}>
+                {phrases.map((phrase, index) => (
+                  <span key={index} className={index < dictation.phrase ? undefined : 'text-muted-foreground'}>
+                    {index < dictation.phrase ? phrase.words.join(' ') : '· · ·'}{' '}
+                  </span>
+                ))}
+              </p>
+            ) : isMemorising && !isCompleted ? (
+              <p className={`text-xl leading-relaxed ${scriptInfo.fontClass}`}>
+                {targetWords.map((word, index) => (
+                  <span
+                    key={index}
+                    className={focusPhrase !== null && index >= phrases[focusPhrase].start && index < phrases[focusPhrase].end
+                      ? 'bg-primary/10 rounded-sm'
+                      : undefined}
+                  >
+                    {isHidden(mantraRecall.words[index]) ? (
+                      <span className="inline-block border-b-2 border-dashed border-muted-foreground/60 text-transparent select-none">
+                        {word}
+                      </span>
+                    ) : word}{' '}
+                  </span>
+                ))}
+              </p>
+            ) : currentInput.trim() && !isCompleted ? (
+              <MantraDiff
+                segments={diffSegments}
+                className={`text-xl leading-relaxed ${scriptInfo.fontClass}`}
+              />
+            ) : mantra.audio?.timings ? (
+              <KaraokeMantra
+                words={targetWords}
+                audio={mantra.audio}
+                audioRef={audioRef}
+                onSeek={seekToWord}
+                className={`text-xl leading-relaxed ${scriptInfo.fontClass}`}
+              />
+            ) : (
+              <p className={`text-xl leading-relaxed ${scriptInfo.fontClass}`}>
+                {target}
+              </p>
+            )}
+            {isMemorising && (
+              <p className="text-xs text-muted-foreground mt-2">
+                {mantraRecall.words.filter(isHidden).length} of {targetWords.length} words hidden ·{' '}
+                {mantraRecall.words.filter(word => word.box >= MASTERED_BOX).length} mastered ·{' '}
+                {mantraRecall.words.reduce((sum, word) => sum + word.recalled, 0)} recalled,{' '}
+                {mantraRecall.words.reduce((sum, word) => sum + word.missed, 0)} missed
+              </p>
+            )}
+            {spellingVariants.length > 0 && !isCompleted && !isListening && !isMemorising && (
+              <div className="flex flex-wrap justify-center items-center gap-2 mt-3 text-xs">
+                <span className="text-muted-foreground">Accepted spellings:</span>
+                {spellingVariants.map((match, index) => (
+                  <Badge key={index} variant="outline" className="font-mantra font-normal">
+                    {match.input.join(' ')} → {match.target.join(' ')}
+                  </Badge>
+                ))}
+              </div>
+            )}
             <p className="text-sm text-muted-foreground mt-2">
-              Repetition {repetitionCount}/3
+              Repetition {repetitionCount}/{sessionSettings.repetitionTarget}
             </p>
           </div>
         </Card>
 
-        {/* Typing Area */}
-        <Card className="mb-6 p-6 bg-card/80 backdrop-blur-sm shadow-peaceful">
-          <div className="space-y-4">
-            <div className="text-center">
-              <h3 className="text-lg font-semibold">Type the Mantra</h3>
-              <p className="text-sm text-muted-foreground">
-                Complete 3 repetitions to earn 10 points
-              </p>
+        {/* Practice Mode */}
+        <div className="flex justify-center mb-6">
+          <Tabs value={practiceMode} onValueChange={(value) => handlePracticeModeChange(value as PracticeMode)}>
+            <TabsList>
+              <TabsTrigger value="typing">Typing</TabsTrigger>
+              <TabsTrigger value="mala">Mala Japa</TabsTrigger>
+              <TabsTrigger value="count">Count Only</TabsTrigger>
+              {mantra.audio?.timings && <TabsTrigger value="dictation">Listen & Type</TabsTrigger>}
+              <TabsTrigger value="memorise">Memorise</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+
+        {/* Mala */}
+        {(practiceMode === 'mala' || practiceMode === 'count') && (
+          <Card className="mb-6 p-6 bg-card/80 backdrop-blur-sm shadow-peaceful">
+            <div className="text-center space-y-4">
+              <div>
+                <h3 className="text-lg font-semibold">Japa Mala</h3>
+                <p className="text-sm text-muted-foreground">
+                  {practiceMode === 'count'
+                    ? 'Tap the mala or press Space for each chant'
+                    : 'Each accepted repetition moves one bead'}
+                </p>
+              </div>
+              <MalaRing
+                size={sessionSettings.malaSize}
+                bead={userProgress.mala.bead}
+                reversed={userProgress.mala.sumeruCrossings % 2 === 1}
+                onAdvance={practiceMode === 'count' ? handleCountBead : undefined}
+              />
+              {practiceMode === 'count' && (
+                <Button onClick={handleCountBead} className="bg-gradient-spiritual hover:opacity-90">
+                  Count Bead
+                </Button>
+              )}
+              <div className="grid grid-cols-3 gap-4 text-sm">
+                <div>
+                  <div className="text-xl font-bold text-primary">{userProgress.mala.completedMalas}</div>
+                  <div className="text-muted-foreground">Malas</div>
+                </div>
+                <div>
+                  <div className="text-xl font-bold text-secondary">{userProgress.mala.sumeruCrossings}</div>
+                  <div className="text-muted-foreground">Sumeru Turns</div>
+                </div>
+                <div>
+                  <div className="text-xl font-bold text-accent">{userProgress.mala.totalCount}</div>
+                  <div className="text-muted-foreground">Total Japa</div>
+                </div>
+              </div>
             </div>
-            
-            {/* Suggestion Bar */}
-            {suggestion && !isCompleted && (
-              <div 
-                className="p-3 bg-muted/50 rounded-md border-l-4 border-primary cursor-pointer hover:bg-muted/70 transition-colors"
-                onClick={handleSuggestionClick}
-              >
-                <p className="text-sm text-muted-foreground mb-1">💡 Tap to use suggestion:</p>
-                <p className={`text-foreground font-medium ${language === 'hindi' ? 'font-sanskrit' : 'font-mantra'}`}>
-                  {suggestion}
+          </Card>
+        )}
+
+        {/* Typing Area */}
+        {practiceMode !== 'count' && (
+          <Card className="mb-6 p-6 bg-card/80 backdrop-blur-sm shadow-peaceful">
+            <div className="space-y-4">
+              <div className="text-center">
+                <h3 className="text-lg font-semibold">
+                  {isDictation ? 'Type What You Hear' : isMemorising ? 'Type the Mantra from Memory' : 'Type the Mantra'}
+                </h3>
+                <p className="text-sm text-muted-foreground">
+                  Complete {sessionSettings.repetitionTarget} repetitions to earn {sessionPoints(sessionSettings)} points
                 </p>
               </div>
-            )}
-            
-            <Textarea
-              ref={textareaRef}
-              value={currentInput}
-              onChange={(e) => handleInputChange(e.target.value)}
-              onPaste={handlePaste}
-              placeholder={`Type the ${language} mantra here...`}
-              className={`min-h-32 text-lg resize-none ${language === 'hindi' ? 'font-sanskrit' : 'font-mantra'} ${isCompleted ? 'bg-accent/20' : ''}`}
-              disabled={isCompleted}
-            />
             
-            {/* Submit Button */}
-            {!isCompleted && (
-              <div className="flex justify-center">
-                <Button 
-                  onClick={handleSubmit}
-                  disabled={!currentInput.trim()}
-                  className="bg-gradient-spiritual hover:opacity-90"
+              {/* Dictation: one phrase at a time */}
+              {isListening && (
+                <div className="flex flex-wrap items-center justify-center gap-3 p-3 bg-muted/50 rounded-md">
+                  <span className="text-sm text-muted-foreground">
+                    Phrase {dictation.phrase + 1} of {phrases.length}
+                  </span>
+                  <Button size="sm" variant="outline" className="border-accent" onClick={() => playPhrase(dictation.phrase)}>
+                    <Volume2 className="w-4 h-4 mr-2" />
+                    Play Phrase
+                  </Button>
+                </div>
+              )}
+
+              {/* Suggestion Bar */}
+              {suggestion && !isCompleted && !isDictation && !isMemorising && (
+                <div 
+                  className="p-3 bg-muted/50 rounded-md border-l-4 border-primary cursor-pointer hover:bg-muted/70 transition-colors"
+                  onClick={handleSuggestionClick}
                 >
-                  Submit Mantra
-                </Button>
-              </div>
-            )}
+                  <p className="text-sm text-muted-foreground mb-1">💡 Tap to use suggestion:</p>
+                  <p className={`text-foreground font-medium ${scriptInfo.fontClass}`}>
+                    {suggestion}
+                  </p>
+                </div>
+              )}
             
-            {isCompleted && (
-              <div className="text-center text-accent font-semibold">
-                🎉 Excellent! Session completed successfully!
-              </div>
-            )}
-          </div>
-        </Card>
+              {/* Phonetic Input Toggle */}
+              {language === 'hindi' && (
+                <div className="flex items-center justify-center gap-2">
+                  <Switch id="phonetic-input" checked={phoneticInput} onCheckedChange={handlePhoneticToggle} />
+                  <Label htmlFor="phonetic-input" className="flex items-center gap-1 cursor-pointer">
+                    <Keyboard className="w-4 h-4" />
+                    Type with English keyboard (ITRANS)
+                  </Label>
+                </div>
+              )}
+
+              <Textarea
+                ref={textareaRef}
+                value={isPhonetic ? romanInput : currentInput}
+                onChange={(e) => (isPhonetic ? handleRomanChange(e.target.value) : handleInputChange(e.target.value))}
+                onKeyDown={(e) => recordKey(keystrokesRef.current, e.key)}
+                onPaste={handlePaste}
+                placeholder={
+                  isListening
+                    ? 'Play the phrase, then type what you hear...'
+                    : isPhonetic ? 'Type phonetically, e.g. om bhUrbhuvaH svaH...' : `Type the ${language} mantra here...`
+                }
+                className={`min-h-32 text-lg resize-none ${isPhonetic ? 'font-mantra' : scriptInfo.fontClass} ${isCompleted ? 'bg-accent/20' : ''}`}
+                disabled={isCompleted}
+              />
 
-        {/* Audio Player */}
-        <Card className="mb-6 p-6 bg-card/80 backdrop-blur-sm shadow-peaceful">
-          <div className="text-center space-y-4">
-            <h3 className="text-lg font-semibold">Gayatri Mantra Chant</h3>
-            <p className="text-sm text-muted-foreground">Param Pujya Gurudev voice - Acharya Shriram Sharma</p>
+              {/* Devanagari Preview */}
+              {isPhonetic && (
+                <div className="p-3 bg-muted/30 rounded-md space-y-1">
+                  <p className="text-sm text-muted-foreground">Devanagari preview:</p>
+                  <p className="text-lg font-sanskrit min-h-7">{currentInput}</p>
+                  <p className="text-xs text-muted-foreground">
+                    aa/A = ा · ii/I = ी · uu/U = ू · R^i = ृ · sh = श · Sh = ष · N = ण · M = ं · H = ः · .a = ऽ
+                  </p>
+                </div>
+              )}
+            
+              {/* Submit Button */}
+              {isListening && (
+                <div className="flex justify-center">
+                  <Button
+                    onClick={checkPhrase}
+                    disabled={!currentInput.trim()}
+                    className="bg-gradient-spiritual hover:opacity-90"
+                  >
+                    Check Phrase
+                  </Button>
+                </div>
+              )}
+
+              {!isCompleted && !isListening && (
+                <div className="flex justify-center">
+                  <Button 
+                    onClick={handleSubmit}
+                    disabled={!currentInput.trim()}
+                    className="bg-gradient-spiritual hover:opacity-90"
+                  >
+                    Submit Mantra
+                  </Button>
+                </div>
+              )}
             
-            {/* Audio Controls */}
-            <div className="flex justify-center gap-4">
-              <Button onClick={toggleAudio} className="bg-gradient-spiritual hover:opacity-90">
-                {isPlaying ? (
-                  <>
-                    <Pause className="w-4 h-4 mr-2" />
-                    Pause Chant
-                  </>
-                ) : (
-                  <>
-                    <Play className="w-4 h-4 mr-2" />
-                    Play Chant
-                  </>
-                )}
-              </Button>
-              <Button onClick={resetAudio} variant="outline" className="border-accent">
-                <RotateCcw className="w-4 h-4 mr-2" />
-                Reset
-              </Button>
+              {isCompleted && (
+                <div className="text-center text-accent font-semibold">
+                  🎉 Excellent! Session completed successfully!
+                </div>
+              )}
+
+              {/* Typing Metrics and Points */}
+              {lastRepetition && (
+                <>
+                  <TypingMetricsCard
+                    metrics={lastRepetition.metrics}
+                    repetition={lastRepetition.repetition}
+                    wordFontClass={scriptInfo.fontClass}
+                  />
+                  <ScoreBreakdownCard score={lastRepetition.score} bonus={lastRepetition.bonus} />
+                </>
+              )}
             </div>
+          </Card>
+        )}
 
-            {/* Speed Control */}
-            <div className="max-w-md mx-auto">
-              <label className="text-sm font-medium mb-2 block">
-                Playback Speed: {playbackSpeed[0]}x
-              </label>
-              <Slider
-                value={playbackSpeed}
-                onValueChange={handleSpeedChange}
-                min={0.5}
-                max={2}
-                step={0.1}
-                className="w-full"
-              />
-              <div className="flex justify-between text-xs text-muted-foreground mt-1">
-                <span>0.5x (Slow)</span>
-                <span>1x (Normal)</span>
-                <span>2x (Fast)</span>
-              </div>
-            </div>
-          </div>
-        </Card>
+        {/* Audio Player */}
+        <ChantPlayer
+          audio={mantra.audio}
+          audioRef={audioRef}
+          phrases={phrases}
+          mode={repeatMode}
+          onModeChange={setRepeatMode}
+        />
 
         {/* Action Buttons */}
-        <div className="flex justify-center gap-4">
+        <div className="flex flex-wrap justify-center gap-4">
+          <SessionSettingsDialog settings={sessionSettings} onChange={setSessionSettings} />
+          <Button asChild variant="outline" className="border-accent">
+            <Link to="/practice">
+              <BarChart3 className="w-4 h-4 mr-2" />
+              My Practice
+            </Link>
+          </Button>
+          <Button asChild variant="outline" className="border-accent">
+            <Link to="/achievements">
+              <Trophy className="w-4 h-4 mr-2" />
+              Achievements
+            </Link>
+          </Button>
           <Button onClick={resetSession} variant="outline" className="border-accent">
             Reset Session
           </Button>
         </div>
 
-        {/* Audio Element */}
-        <audio
-          ref={audioRef}
-          src="/Gayatri Mantra _ Param Pujya Gurudev voice 24 24000 Times Powerful _ Acharya Shriram Sharma.mp3"
-          preload="auto"
-          loop
-          onEnded={() => setIsPlaying(false)}
-          onPause={() => setIsPlaying(false)}
-          onPlay={() => setIsPlaying(true)}
-        />
+        <CertificateDialog data={certificate} onOpenChange={(open) => !open && setCertificate(null)} />
 
         {/* Stats */}
         <Card className="mt-8 p-4 bg-card/60 backdrop-blur-sm">
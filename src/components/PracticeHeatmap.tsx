@@ -0,0 +1,56 @@
+import { addDays, format, isAfter, startOfWeek, subWeeks } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { localDayKey } from '@/lib/streaks';
+
+interface PracticeHeatmapProps {
+  counts: Map<string, number>;
+  weeks?: number;
+  today?: Date;
+}
+
+const intensity = (count: number): string => {
+  if (count === 0) return 'bg-muted';
+  if (count <= 2) return 'bg-primary/25';
+  if (count <= 5) return 'bg-primary/50';
+  if (count <= 10) return 'bg-primary/75';
+  return 'bg-primary';
+};
+
+export default function PracticeHeatmap({ counts, weeks = 53, today = new Date() }: PracticeHeatmapProps) {
+  const firstDay = startOfWeek(subWeeks(today, weeks - 1));
+  const columns = Array.from({ length: weeks }, (_, week) =>
+    Array.from({ length: 7 }, (_, day) => addDays(firstDay, week * 7 + day))
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-flex gap-[3px]">
+        {columns.map((days, week) => (
+          <div key={week} className="flex flex-col gap-[3px]">
+            <div className="h-4 text-[10px] text-muted-foreground whitespace-nowrap">
+              {days[0].getDate() <= 7 ? format(days[0], 'MMM') : ''}
+            </div>
+            {days.map((day) => {
+              const key = localDayKey(day);
+              const count = counts.get(key) ?? 0;
+              return (
+                <div
+                  key={key}
+                  title={`${format(day, 'd MMM yyyy')}: ${count} repetition${count === 1 ? '' : 's'}`}
+                  className={cn('h-3 w-3 rounded-sm', isAfter(day, today) ? 'invisible' : intensity(count))}
+                />
+              );
+            })}
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center justify-end gap-1 mt-2 text-xs text-muted-foreground">
+        Less
+        {[0, 1, 3, 6, 11].map((count) => (
+          <div key={count} className={cn('h-3 w-3 rounded-sm', intensity(count))} />
+        ))}
+        More
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Input } from '@/components/ui/input';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { cn } from '@/lib/utils';
+import { PIN_LENGTH, PROFILE_AVATARS, createProfileId, hashPin, type Profile } from '@/lib/profiles';
+
+interface ProfileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Profile being edited; a new profile is created when absent
+  profile?: Profile;
+  onSave: (profile: Profile) => void;
+  onDelete?: () => void;
+}
+
+export default function ProfileDialog({ open, onOpenChange, profile, onSave, onDelete }: ProfileDialogProps) {
+  const [name, setName] = useState(profile?.name ?? '');
+  const [avatar, setAvatar] = useState(profile?.avatar ?? PROFILE_AVATARS[0]);
+  const [pinEnabled, setPinEnabled] = useState(Boolean(profile?.pinHash));
+  const [pin, setPin] = useState('');
+
+  // An existing PIN is kept unless a new one is typed
+  const keepsPin = pinEnabled && Boolean(profile?.pinHash) && pin.length === 0;
+  const canSave = name.trim().length > 0 && (!pinEnabled || keepsPin || pin.length === PIN_LENGTH);
+
+  const handleSave = async () => {
+    const id = profile?.id ?? createProfileId();
+    let pinHash: string | undefined;
+    if (keepsPin) pinHash = profile?.pinHash;
+    else if (pinEnabled) pinHash = await hashPin(id, pin);
+
+    onSave({ id, name: name.trim(), avatar, pinHash });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{profile ? 'Edit Profile' : 'New Profile'}</DialogTitle>
+          <DialogDescription>
+            Each profile keeps its own points, achievements, settings and practice history on this device.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label htmlFor="profile-name">Name</Label>
+            <Input id="profile-name" value={name} maxLength={30} onChange={(e) => setName(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Avatar</Label>
+            <div className="flex flex-wrap gap-2">
+              {PROFILE_AVATARS.map((emoji) => (
+                <button
+                  key={emoji}
+                  type="button"
+                  onClick={() => setAvatar(emoji)}
+                  aria-label={`Avatar ${emoji}`}
+                  aria-pressed={avatar === emoji}
+                  className={cn(
+                    'h-10 w-10 rounded-full text-xl bg-muted transition-all',
+                    avatar === emoji ? 'ring-2 ring-primary scale-110' : 'hover:bg-accent/30'
+                  )}
+                >
+                  {emoji}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="profile-pin">Protect with a PIN</Label>
+              <Switch id="profile-pin" checked={pinEnabled} onCheckedChange={setPinEnabled} />
+            </div>
+            {pinEnabled && (
+              <div className="space-y-2">
+                <InputOTP maxLength={PIN_LENGTH} value={pin} onChange={setPin} inputMode="numeric" pattern="^[0-9]*$">
+                  <InputOTPGroup>
+                    {Array.from({ length: PIN_LENGTH }, (_, index) => (
+                      <InputOTPSlot key={index} index={index} />
+                    ))}
+                  </InputOTPGroup>
+                </InputOTP>
+                <p className="text-xs text-muted-foreground">
+                  {profile?.pinHash ? 'Leave empty to keep the current PIN.' : `Choose a ${PIN_LENGTH}-digit PIN.`}
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          {profile && onDelete ? (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" className="text-destructive">Delete Profile</Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete {profile.name}?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    All points, achievements, settings and practice history of this profile will be removed
+                    from this device. Export a backup first if you want to keep them.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    onClick={() => {
+                      onDelete();
+                      onOpenChange(false);
+                    }}
+                  >
+                    Delete
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          ) : <span />}
+          <Button onClick={handleSave} disabled={!canSave}>
+            {profile ? 'Save Profile' : 'Create Profile'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { Check, ChevronDown, Lock, Pencil, UserPlus } from 'lucide-react';
+import ProfileDialog from '@/components/ProfileDialog';
+import { useProfiles } from '@/hooks/use-profiles';
+import {
+  PIN_LENGTH,
+  addProfile,
+  removeProfile,
+  switchProfile,
+  updateProfile,
+  verifyPin,
+  type Profile,
+} from '@/lib/profiles';
+import { deleteStoredProgress } from '@/lib/progress';
+import { deleteSessionSettings } from '@/lib/session-settings';
+import { deletePracticeStore } from '@/lib/practice-store';
+
+export const ProfileAvatar = ({ profile, className }: { profile: Profile; className?: string }) => (
+  <Avatar className={className ?? 'h-8 w-8'}>
+    <AvatarFallback className="bg-accent/30 text-lg">{profile.avatar}</AvatarFallback>
+  </Avatar>
+);
+
+export default function ProfileSwitcher() {
+  const { activeId, profiles, activeProfile, update } = useProfiles();
+  const [editing, setEditing] = useState<'new' | 'active' | null>(null);
+  const [locked, setLocked] = useState<Profile | null>(null);
+  const [pin, setPin] = useState('');
+  const [pinError, setPinError] = useState(false);
+
+  const state = { activeId, profiles };
+
+  const handleSelect = (profile: Profile) => {
+    if (profile.id === activeId) return;
+    if (profile.pinHash) {
+      setPin('');
+      setPinError(false);
+      setLocked(profile);
+    } else {
+      update(switchProfile(state, profile.id));
+    }
+  };
+
+  const handlePinChange = async (value: string) => {
+    setPin(value);
+    setPinError(false);
+    if (!locked || value.length < PIN_LENGTH) return;
+
+    if (await verifyPin(locked, value)) {
+      update(switchProfile(state, locked.id));
+      setLocked(null);
+    } else {
+      setPinError(true);
+      setPin('');
+    }
+  };
+
+  const handleSave = (profile: Profile) => {
+    update(editing === 'new' ? addProfile(state, profile) : updateProfile(state, profile.id, profile));
+  };
+
+  const handleDelete = () => {
+    const { id } = activeProfile;
+    update(removeProfile(state, id));
+    deleteStoredProgress(id);
+    deleteSessionSettings(id);
+    deletePracticeStore(id).catch(error => console.error('Could not delete practice history:', error));
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="border-accent bg-card/80 h-auto py-1.5 pl-1.5">
+            <ProfileAvatar profile={activeProfile} />
+            <span className="ml-2 max-w-40 truncate">{activeProfile.name}</span>
+            <ChevronDown className="w-4 h-4 ml-1 opacity-60" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="center" className="w-56">
+          <DropdownMenuLabel>Who is practising?</DropdownMenuLabel>
+          {profiles.map((profile) => (
+            <DropdownMenuItem key={profile.id} onSelect={() => handleSelect(profile)}>
+              <ProfileAvatar profile={profile} className="h-6 w-6 mr-2" />
+              <span className="flex-1 truncate">{profile.name}</span>
+              {profile.id === activeId
+                ? <Check className="w-4 h-4 text-primary" />
+                : profile.pinHash && <Lock className="w-3 h-3 text-muted-foreground" />}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setEditing('active')}>
+            <Pencil className="w-4 h-4 mr-2" />
+            Edit {activeProfile.name}
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setEditing('new')}>
+            <UserPlus className="w-4 h-4 mr-2" />
+            Add Profile
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {editing && (
+        <ProfileDialog
+          open
+          onOpenChange={(open) => !open && setEditing(null)}
+          profile={editing === 'active' ? activeProfile : undefined}
+          onSave={handleSave}
+          onDelete={editing === 'active' && profiles.length > 1 ? handleDelete : undefined}
+        />
+      )}
+
+      <Dialog open={locked !== null} onOpenChange={(open) => !open && setLocked(null)}>
+        <DialogContent className="sm:max-w-xs">
+          <DialogHeader>
+            <DialogTitle>Enter PIN</DialogTitle>
+            <DialogDescription>{locked?.name}'s profile is protected with a PIN.</DialogDescription>
+          </DialogHeader>
+          <div className="flex flex-col items-center gap-2">
+            <InputOTP maxLength={PIN_LENGTH} value={pin} onChange={handlePinChange} inputMode="numeric" pattern="^[0-9]*$" autoFocus>
+              <InputOTPGroup>
+                {Array.from({ length: PIN_LENGTH }, (_, index) => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+            {pinError && <p className="text-sm text-destructive">Wrong PIN, please try again</p>}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
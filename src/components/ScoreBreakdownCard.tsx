@@ -0,0 +1,47 @@
+import { Card } from '@/components/ui/card';
+import { Sparkles } from 'lucide-react';
+import type { ScoreBreakdown } from '@/lib/scoring';
+
+interface ScoreBreakdownCardProps {
+  score: ScoreBreakdown;
+  // Completion bonus, when the repetition finished the session
+  bonus?: ScoreBreakdown;
+}
+
+const formatMultiplier = (value: number) => `×${Number(value.toFixed(2))}`;
+
+const BreakdownRow = ({ title, score }: { title: string; score: ScoreBreakdown }) => (
+  <div className="space-y-1">
+    <div className="flex justify-between text-sm">
+      <span>{title}</span>
+      <span className="text-muted-foreground">{score.base} pts</span>
+    </div>
+    {score.multipliers.map((multiplier) => (
+      <div key={multiplier.label} className="flex justify-between text-xs text-muted-foreground">
+        <span>{multiplier.label}</span>
+        <span className={multiplier.value > 1 ? 'text-primary' : multiplier.value < 1 ? 'text-destructive' : ''}>
+          {formatMultiplier(multiplier.value)}
+        </span>
+      </div>
+    ))}
+    <div className="flex justify-between text-sm font-semibold border-t border-border pt-1">
+      <span>Earned</span>
+      <span className="text-primary">+{score.points}</span>
+    </div>
+  </div>
+);
+
+export default function ScoreBreakdownCard({ score, bonus }: ScoreBreakdownCardProps) {
+  return (
+    <Card className="p-4 bg-muted/40 border-accent">
+      <div className="flex items-center justify-center gap-2 mb-3 text-sm font-semibold">
+        <Sparkles className="w-4 h-4 text-primary" />
+        Points breakdown
+      </div>
+      <div className="grid gap-4 sm:grid-cols-2">
+        <BreakdownRow title="Repetition" score={score} />
+        {bonus && <BreakdownRow title="Completion bonus" score={bonus} />}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,159 @@
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Settings } from 'lucide-react';
+import { REPETITION_PRESETS, sessionPoints, type SessionSettings } from '@/lib/session-settings';
+import { MALA_SIZES } from '@/lib/mala';
+import { LEVEL_CURVES } from '@/lib/levels';
+import { SCORING_MODES } from '@/lib/scoring';
+
+interface SessionSettingsDialogProps {
+  settings: SessionSettings;
+  onChange: (settings: SessionSettings) => void;
+}
+
+const toCount = (value: string, min: number) => Math.max(min, Math.floor(Number(value) || 0));
+
+export default function SessionSettingsDialog({ settings, onChange }: SessionSettingsDialogProps) {
+  const update = (changes: Partial<SessionSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="border-accent">
+          <Settings className="w-4 h-4 mr-2" />
+          Session Settings
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Session Settings</DialogTitle>
+          <DialogDescription>
+            Choose your japa count and how points are awarded. Settings are saved on this device.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label htmlFor="repetition-target">Repetitions per session</Label>
+            <div className="flex flex-wrap gap-2">
+              {REPETITION_PRESETS.map((count) => (
+                <Button
+                  key={count}
+                  size="sm"
+                  variant={settings.repetitionTarget === count ? 'default' : 'outline'}
+                  onClick={() => update({ repetitionTarget: count })}
+                >
+                  {count}
+                </Button>
+              ))}
+            </div>
+            <Input
+              id="repetition-target"
+              type="number"
+              min={1}
+              value={settings.repetitionTarget}
+              onChange={(e) => update({ repetitionTarget: toCount(e.target.value, 1) })}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="points-per-repetition">Points per repetition</Label>
+              <Input
+                id="points-per-repetition"
+                type="number"
+                min={0}
+                value={settings.pointsPerRepetition}
+                onChange={(e) => update({ pointsPerRepetition: toCount(e.target.value, 0) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="completion-bonus">Completion bonus</Label>
+              <Input
+                id="completion-bonus"
+                type="number"
+                min={0}
+                value={settings.completionBonus}
+                onChange={(e) => update({ completionBonus: toCount(e.target.value, 0) })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Scoring</Label>
+            <div className="flex flex-wrap gap-2">
+              {SCORING_MODES.map((mode) => (
+                <Button
+                  key={mode.id}
+                  size="sm"
+                  variant={settings.scoringMode === mode.id ? 'default' : 'outline'}
+                  onClick={() => update({ scoringMode: mode.id })}
+                >
+                  {mode.label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {SCORING_MODES.find((mode) => mode.id === settings.scoringMode)?.description}.
+              Points grow with typing speed and your daily streak.
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="reset-on-fail" className="leading-snug">
+              Reset the count when a repetition fails
+            </Label>
+            <Switch
+              id="reset-on-fail"
+              checked={settings.resetOnFail}
+              onCheckedChange={(checked) => update({ resetOnFail: checked })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Beads on your mala</Label>
+            <div className="flex flex-wrap gap-2">
+              {MALA_SIZES.map((beads) => (
+                <Button
+                  key={beads}
+                  size="sm"
+                  variant={settings.malaSize === beads ? 'default' : 'outline'}
+                  onClick={() => update({ malaSize: beads })}
+                >
+                  {beads} beads
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Level curve</Label>
+            <div className="flex flex-wrap gap-2">
+              {LEVEL_CURVES.map((curve) => (
+                <Button
+                  key={curve.id}
+                  size="sm"
+                  variant={settings.levelCurve === curve.id ? 'default' : 'outline'}
+                  onClick={() => update({ levelCurve: curve.id })}
+                >
+                  {curve.label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Each level needs more points than the last; a steeper curve makes new levels rarer.
+            </p>
+          </div>
+
+          <p className="text-sm text-muted-foreground text-center">
+            A perfect session of {settings.repetitionTarget} repetitions earns {sessionPoints(settings)} points
+            before speed and streak multipliers.
+          </p>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,60 @@
+import { format } from 'date-fns';
+import { CalendarCheck } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import { getMantra } from '@/lib/mantras';
+import type { PracticeItem, PracticeQueue } from '@/lib/scheduler';
+
+interface TodaysPracticeProps {
+  queue: PracticeQueue;
+  mantraId: string;
+  onSelect: (item: PracticeItem) => void;
+}
+
+const itemTitle = (item: PracticeItem) =>
+  item.kind === 'mantra'
+    ? getMantra(item.mantraId).title
+    : `${getMantra(item.mantraId).title} · line ${item.phrase + 1}`;
+
+const itemReason = (item: PracticeItem) => {
+  if (item.kind === 'phrase') return `${Math.round(item.missRate * 100)}% of hidden words missed – memorise`;
+  if (item.isNew) return 'New mantra';
+  if (item.overdueDays === 0) return 'Due today';
+  return `${item.overdueDays} day${item.overdueDays === 1 ? '' : 's'} overdue`;
+};
+
+export default function TodaysPractice({ queue, mantraId, onSelect }: TodaysPracticeProps) {
+  return (
+    <Card className="mb-6 p-4 bg-card/80 backdrop-blur-sm shadow-peaceful">
+      <div className="flex items-center justify-center gap-2 mb-3 font-semibold">
+        <CalendarCheck className="w-4 h-4 text-primary" />
+        Today's Practice
+      </div>
+      {queue.items.length === 0 ? (
+        <p className="text-sm text-center text-muted-foreground">
+          All caught up
+          {queue.nextDue && ` – next review on ${format(queue.nextDue, 'EEE d MMM')}`}
+        </p>
+      ) : (
+        <div className="flex flex-wrap justify-center gap-2">
+          {queue.items.map((item) => (
+            <button
+              key={item.kind === 'mantra' ? item.mantraId : `${item.mantraId}:${item.phrase}`}
+              type="button"
+              onClick={() => onSelect(item)}
+              className={cn(
+                'rounded-md border px-3 py-2 text-left transition-colors hover:bg-muted/70',
+                item.mantraId === mantraId ? 'border-primary bg-primary/10' : 'border-accent bg-muted/40'
+              )}
+            >
+              <div className="text-sm font-medium">{itemTitle(item)}</div>
+              <div className={cn('text-xs', item.kind === 'mantra' && item.overdueDays > 0 ? 'text-destructive' : 'text-muted-foreground')}>
+                {itemReason(item)}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,43 @@
+import { Card } from '@/components/ui/card';
+import { Gauge } from 'lucide-react';
+import { slowestWord, type TypingMetrics } from '@/lib/typing-metrics';
+
+interface TypingMetricsCardProps {
+  metrics: TypingMetrics;
+  repetition: number;
+  wordFontClass?: string;
+}
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+export default function TypingMetricsCard({ metrics, repetition, wordFontClass }: TypingMetricsCardProps) {
+  const slowest = slowestWord(metrics);
+  const stats = [
+    { label: 'WPM', value: metrics.wordsPerMinute },
+    { label: 'Aksharas/min', value: metrics.aksharasPerMinute },
+    { label: 'Time', value: formatSeconds(metrics.durationMs) },
+    { label: 'Backspaces', value: metrics.backspaces },
+  ];
+
+  return (
+    <Card className="p-4 bg-muted/40 border-accent">
+      <div className="flex items-center justify-center gap-2 mb-3 text-sm font-semibold">
+        <Gauge className="w-4 h-4 text-primary" />
+        Repetition {repetition} rhythm
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+        {stats.map((stat) => (
+          <div key={stat.label}>
+            <div className="text-lg font-bold text-primary">{stat.value}</div>
+            <div className="text-xs text-muted-foreground">{stat.label}</div>
+          </div>
+        ))}
+      </div>
+      {slowest && slowest.pauseMs > 0 && (
+        <p className="text-xs text-muted-foreground text-center mt-3">
+          Longest pause: {formatSeconds(slowest.pauseMs)} before <span className={wordFontClass}>{slowest.word}</span>
+        </p>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,102 @@
+import { useEffect, useState, type MutableRefObject, type RefObject } from 'react';
+
+// Playback position of an audio element. Reads it every frame while playing,
+// so it follows the playback rate, and on seeks while paused.
+export function useAudioTime(audioRef: RefObject<HTMLAudioElement>) {
+  const [time, setTime] = useState(0);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    let frame = 0;
+    const update = () => setTime(audio.currentTime);
+    const tick = () => {
+      update();
+      frame = requestAnimationFrame(tick);
+    };
+    const start = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(tick);
+    };
+    const stop = () => {
+      cancelAnimationFrame(frame);
+      update();
+    };
+
+    const events: Array<[string, () => void]> = [
+      ['play', start],
+      ['pause', stop],
+      ['ended', stop],
+      ['seeked', update],
+      ['loadedmetadata', update],
+    ];
+    events.forEach(([event, listener]) => audio.addEventListener(event, listener));
+    if (!audio.paused) start();
+
+    return () => {
+      cancelAnimationFrame(frame);
+      events.forEach(([event, listener]) => audio.removeEventListener(event, listener));
+    };
+  }, [audioRef]);
+
+  return time;
+}
+
+// Length of the loaded recording in seconds, 0 until it is known
+export function useAudioDuration(audioRef: RefObject<HTMLAudioElement>) {
+  const [duration, setDuration] = useState(0);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    const update = () => setDuration(Number.isFinite(audio.duration) ? audio.duration : 0);
+    audio.addEventListener('durationchange', update);
+    audio.addEventListener('emptied', update);
+    update();
+
+    return () => {
+      audio.removeEventListener('durationchange', update);
+      audio.removeEventListener('emptied', update);
+    };
+  }, [audioRef]);
+
+  return duration;
+}
+
+// Pauses the audio element once it reaches the time held in endRef, then
+// clears it. Checked every frame without re-rendering the caller.
+export function usePauseAt(audioRef: RefObject<HTMLAudioElement>, endRef: MutableRefObject<number | null>) {
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    let frame = 0;
+    const tick = () => {
+      if (endRef.current !== null && audio.currentTime >= endRef.current) {
+        endRef.current = null;
+        audio.pause();
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    const start = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(tick);
+    };
+    const stop = () => cancelAnimationFrame(frame);
+
+    audio.addEventListener('play', start);
+    audio.addEventListener('pause', stop);
+    audio.addEventListener('ended', stop);
+    if (!audio.paused) start();
+
+    return () => {
+      cancelAnimationFrame(frame);
+      audio.removeEventListener('play', start);
+      audio.removeEventListener('pause', stop);
+      audio.removeEventListener('ended', stop);
+    };
+  }, [audioRef, endRef]);
+}
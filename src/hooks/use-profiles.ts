@@ -0,0 +1,26 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { PROFILES_CHANGE_EVENT, PROFILES_STORAGE_KEY, parseProfiles, saveProfiles, type ProfileState } from '@/lib/profiles';
+
+const subscribe = (onChange: () => void) => {
+  window.addEventListener(PROFILES_CHANGE_EVENT, onChange);
+  // Other tabs
+  window.addEventListener('storage', onChange);
+  return () => {
+    window.removeEventListener(PROFILES_CHANGE_EVENT, onChange);
+    window.removeEventListener('storage', onChange);
+  };
+};
+
+// The raw stored value is the snapshot, so the state object only changes
+// when the profiles do
+const getSnapshot = () => localStorage.getItem(PROFILES_STORAGE_KEY);
+
+export function useProfiles() {
+  const raw = useSyncExternalStore(subscribe, getSnapshot);
+  const state = useMemo(() => parseProfiles(raw), [raw]);
+  const activeProfile = state.profiles.find(profile => profile.id === state.activeId) ?? state.profiles[0];
+
+  const update = useCallback((next: ProfileState) => saveProfiles(next), []);
+
+  return { ...state, activeProfile, update };
+}
@@ -0,0 +1,168 @@
+import { alignSequences, diffText, splitGraphemes, type DiffSegment } from '@/lib/diff';
+import { getScript, type Script } from '@/lib/scripts';
+import { devanagariToRoman, romanToDevanagari } from '@/lib/transliteration';
+import { matchWords, type WordMatch } from '@/lib/hinglish';
+
+const NUKTA = /\u093C/g;
+const JOINERS = /[\u200C\u200D]/g;
+
+// Canonical form used for every comparison: NFC, no dandas, single spaces,
+// plus the per-script rules:
+// - Devanagari drops nukta and ZWJ/ZWNJ – Sanskrit mantras never need them,
+//   but Hindi keyboards and IMEs insert them freely.
+// - IAST folds the ISO 15919 / dot-above variants onto the IAST letters.
+// - ITRANS is round-tripped through Devanagari, so aa/A, sh/z, R^i/RRi etc.
+//   all collapse onto one spelling.
+export const normalizeText = (text: string, language: Script): string => {
+  let normalized = text.normalize('NFC').replace(/[।॥|]/g, '');
+  switch (language) {
+    case 'hindi':
+      normalized = normalized.replace(NUKTA, '').replace(JOINERS, '');
+      break;
+    case 'iast':
+      normalized = normalized
+        .replace(/ṁ/g, 'ṃ')
+        .replace(/r\u0325\u0304/g, 'ṝ')
+        .replace(/r\u0325/g, 'ṛ')
+        .replace(/l\u0325/g, 'ḷ');
+      break;
+    case 'itrans':
+      normalized = devanagariToRoman(romanToDevanagari(normalized), 'itrans');
+      break;
+  }
+  return normalized.replace(/\s+/g, ' ').trim();
+};
+
+const SACRED_SYLLABLE: Record<Script, string> = {
+  hindi: 'ॐ',
+  iast: 'oṃ',
+  itrans: 'OM',
+  hinglish: 'Om',
+};
+
+// Auto-correction function
+export const autoCorrect = (input: string, target: string, language: Script): string => {
+  // Handle ॐ variations
+  return input.replace(/\b(om|aum)\b/gi, SACRED_SYLLABLE[language]);
+};
+
+// Get typing suggestions
+export const getTypingSuggestion = (input: string, targetWords: string[]): string => {
+  const inputWords = input.trim().split(' ');
+
+  // If no input, suggest the first word
+  if (!input.trim()) {
+    return targetWords[0];
+  }
+
+  if (inputWords.length <= targetWords.length) {
+    const currentWordIndex = inputWords.length - 1;
+    const currentWord = inputWords[currentWordIndex] || '';
+    const targetWord = targetWords[currentWordIndex] || '';
+
+    if (targetWord.startsWith(currentWord) && currentWord.length > 0) {
+      return targetWord;
+    }
+  }
+
+  return '';
+};
+
+const splitWords = (text: string): string[] => text.split(' ').filter(Boolean);
+
+// Word-level alignment of Hinglish input, tolerant of spelling variants
+export const matchHinglishWords = (input: string, target: string, partial = false): WordMatch[] =>
+  matchWords(
+    splitWords(normalizeText(autoCorrect(input, target, 'hinglish'), 'hinglish')),
+    splitWords(normalizeText(target, 'hinglish')),
+    partial
+  );
+
+// Hinglish diff: words accepted as variants are shown as correct,
+// only genuinely wrong words get a grapheme-level diff
+const diffWordMatches = (matches: WordMatch[]): DiffSegment[] => {
+  const segments: DiffSegment[] = [];
+  matches.forEach((match, index) => {
+    if (index > 0) {
+      segments.push({ status: match.status === 'pending' ? 'pending' : 'correct', expected: ' ', actual: ' ' });
+    }
+    const targetText = match.target.join(' ');
+    switch (match.status) {
+      case 'exact':
+      case 'variant':
+        splitGraphemes(targetText).forEach(grapheme => segments.push({ status: 'correct', expected: grapheme, actual: grapheme }));
+        break;
+      case 'wrong':
+        segments.push(...diffText(match.input.join(' '), targetText, { ignoreCase: true }));
+        break;
+      case 'missing':
+      case 'pending':
+        splitGraphemes(targetText).forEach(grapheme => segments.push({ status: match.status as 'missing' | 'pending', expected: grapheme }));
+        break;
+      case 'extra':
+        splitGraphemes(match.input.join(' ')).forEach(grapheme => segments.push({ status: 'extra', actual: grapheme }));
+        break;
+    }
+  });
+  return segments;
+};
+
+// Grapheme-level diff of the typed text against the target, for live feedback
+export const getMantraDiff = (input: string, target: string, language: Script): DiffSegment[] => {
+  if (language === 'hinglish') {
+    return diffWordMatches(matchHinglishWords(input, target, true));
+  }
+  return diffText(
+    normalizeText(autoCorrect(input, target, language), language),
+    normalizeText(target, language),
+    { ignoreCase: !getScript(language).caseSensitive }
+  );
+};
+
+// Share of the mantra typed correctly, in percent, after auto-corrections.
+// 100 means an exact match (for Hinglish, every word in an accepted
+// spelling); anything lower is the share of aksharas that line up with the
+// target, counted per grapheme cluster so one wrong akshara is one error.
+export const measureAccuracy = (input: string, target: string, language: Script): number => {
+  const corrected = autoCorrect(input, target, language);
+  const caseFold = (text: string) => (getScript(language).caseSensitive ? text : text.toLowerCase());
+  const targetNormalized = caseFold(normalizeText(target, language));
+  const inputNormalized = caseFold(normalizeText(corrected, language));
+
+  // Exact match
+  if (inputNormalized === targetNormalized) return 100;
+
+  // Every Hinglish word matched, allowing common spelling variants
+  if (language === 'hinglish' && matchHinglishWords(input, target).every(match => match.status === 'exact' || match.status === 'variant')) {
+    return 100;
+  }
+
+  const targetClusters = splitGraphemes(targetNormalized.replace(/\s/g, ''));
+  const inputClusters = splitGraphemes(inputNormalized.replace(/\s/g, ''));
+  const errors = alignSequences(targetClusters, inputClusters)
+    .filter(op => op.type !== 'match').length;
+
+  // Never round a near miss up to a perfect score
+  const similarity = Math.floor(((targetClusters.length - errors) / targetClusters.length) * 100);
+  return Math.min(99, Math.max(0, similarity));
+};
+
+// Which target words appear correctly in the typed text, aligned word by word
+export const recalledWords = (input: string, targetWords: string[], language: Script): boolean[] => {
+  if (language === 'hinglish') {
+    const recalled: boolean[] = [];
+    matchHinglishWords(input, targetWords.join(' ')).forEach(match => {
+      match.target.forEach(() => recalled.push(match.status === 'exact' || match.status === 'variant'));
+    });
+    return recalled;
+  }
+
+  const caseFold = (text: string) => (getScript(language).caseSensitive ? text : text.toLowerCase());
+  const normalizeWords = (text: string) => splitWords(caseFold(normalizeText(autoCorrect(text, '', language), language)));
+  const target = targetWords.map(word => caseFold(normalizeText(word, language)));
+  const recalled = target.map(() => false);
+  alignSequences(target, normalizeWords(input)).forEach(op => {
+    if (op.type === 'match') recalled[op.targetIndex] = true;
+  });
+  return recalled;
+};
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ACHIEVEMENTS,
+  collectAchievementStats,
+  evaluateAchievements,
+  newlyUnlocked,
+  resolveAchievementId,
+  type AchievementStats,
+} from '@/lib/achievements';
+import { EMPTY_HISTORY, type RepetitionRecord } from '@/lib/history';
+import { DEFAULT_MALA_PROGRESS } from '@/lib/mala';
+import type { Script } from '@/lib/scripts';
+
+// Runs in Asia/Kolkata (see vite.config.ts), so times are written with their offset
+const NOW = new Date('2026-03-10T12:00:00+05:30');
+
+const typed = (
+  timestamp: string,
+  { accuracy = 100, backspaces = 0, aksharasPerMinute = 20, script = 'hindi' as Script } = {}
+): RepetitionRecord => ({
+  timestamp: new Date(timestamp).toISOString(),
+  mantraId: 'gayatri',
+  script,
+  source: 'typed',
+  accuracy,
+  metrics: { durationMs: 60000, wordsPerMinute: 10, aksharasPerMinute, backspaces, hesitations: [] },
+});
+
+const counted = (timestamp: string): RepetitionRecord => ({
+  timestamp: new Date(timestamp).toISOString(),
+  mantraId: 'gayatri',
+  script: 'hindi',
+  source: 'count',
+});
+
+const statsOf = (repetitions: RepetitionRecord[], totalPoints = 0) =>
+  collectAchievementStats(
+    { totalPoints, mala: DEFAULT_MALA_PROGRESS, history: { ...EMPTY_HISTORY, repetitions } },
+    NOW
+  );
+
+const NO_STATS: AchievementStats = {
+  points: 0, streak: 0, perfectRun: 0, malas: 0, brahmaMuhurta: 0, scripts: 0, speed: 0,
+};
+
+describe('collectAchievementStats', () => {
+  it('has nothing to count for a new user', () => {
+    expect(statsOf([])).toEqual(NO_STATS);
+  });
+
+  it('takes the longest run of practice days as the streak', () => {
+    const stats = statsOf([
+      typed('2026-03-01T09:00:00+05:30'),
+      typed('2026-03-02T09:00:00+05:30'),
+      typed('2026-03-03T21:00:00+05:30'),
+      typed('2026-03-05T09:00:00+05:30'),
+    ]);
+    expect(stats.streak).toBe(3);
+  });
+
+  it('counts flawless repetitions in a row, skipping count-only japa', () => {
+    const stats = statsOf([
+      typed('2026-03-01T09:00:00+05:30'),
+      typed('2026-03-01T09:01:00+05:30'),
+      counted('2026-03-01T09:02:00+05:30'),
+      typed('2026-03-01T09:03:00+05:30'),
+      // Corrected with backspace, so not flawless
+      typed('2026-03-01T09:04:00+05:30', { backspaces: 1 }),
+      typed('2026-03-01T09:05:00+05:30'),
+      typed('2026-03-01T09:06:00+05:30', { accuracy: 95 }),
+    ]);
+    expect(stats.perfectRun).toBe(3);
+  });
+
+  it('counts days with practice between 4 and 6 a.m. local time', () => {
+    const stats = statsOf([
+      typed('2026-03-01T03:59:00+05:30'),
+      typed('2026-03-01T04:00:00+05:30'),
+      typed('2026-03-01T05:59:00+05:30'),
+      typed('2026-03-02T06:00:00+05:30'),
+      // 23:00 UTC on 2 March is 4:30 a.m. on 3 March in India
+      counted('2026-03-02T23:00:00Z'),
+    ]);
+    expect(stats.brahmaMuhurta).toBe(2);
+  });
+
+  it('counts the scripts typed in', () => {
+    const stats = statsOf([
+      typed('2026-03-01T09:00:00+05:30', { script: 'hindi' }),
+      typed('2026-03-01T09:01:00+05:30', { script: 'iast' }),
+      typed('2026-03-01T09:02:00+05:30', { script: 'iast' }),
+      { ...counted('2026-03-01T09:03:00+05:30'), script: 'itrans' },
+    ]);
+    expect(stats.scripts).toBe(2);
+  });
+
+  it('takes the fastest typed repetition as the speed', () => {
+    const stats = statsOf([
+      typed('2026-03-01T09:00:00+05:30', { aksharasPerMinute: 42 }),
+      typed('2026-03-01T09:01:00+05:30', { aksharasPerMinute: 65 }),
+      typed('2026-03-01T09:02:00+05:30', { aksharasPerMinute: 31 }),
+    ]);
+    expect(stats.speed).toBe(65);
+  });
+});
+
+describe('evaluateAchievements', () => {
+  const progressOf = (stats: AchievementStats, unlockedIds: string[] = []) =>
+    Object.fromEntries(evaluateAchievements(stats, unlockedIds).map(item => [item.achievement.id, item]));
+
+  it('unlocks each tier once its goal is reached', () => {
+    const progress = progressOf({ ...NO_STATS, streak: 7 });
+    expect(progress['streak-3']).toMatchObject({ unlocked: true, current: 7, ratio: 1 });
+    expect(progress['streak-7']).toMatchObject({ unlocked: true, ratio: 1 });
+    expect(progress['streak-30']).toMatchObject({ unlocked: false, current: 7 });
+    expect(progress['streak-30'].ratio).toBeCloseTo(7 / 30);
+  });
+
+  it('stops just short of a goal', () => {
+    const progress = progressOf({ ...NO_STATS, points: 499 });
+    expect(progress['points-100'].unlocked).toBe(true);
+    expect(progress['points-500']).toMatchObject({ unlocked: false, ratio: 0.998 });
+  });
+
+  it('keeps achievements unlocked earlier, including by their old titles', () => {
+    const progress = progressOf(NO_STATS, ['speed-30', 'Bronze Mantra Medal']);
+    expect(progress['speed-30']).toMatchObject({ unlocked: true, current: 0, ratio: 1 });
+    expect(progress['points-500'].unlocked).toBe(true);
+  });
+
+  it('lists every achievement in catalogue order', () => {
+    expect(evaluateAchievements(NO_STATS, []).map(item => item.achievement)).toEqual(ACHIEVEMENTS);
+  });
+});
+
+describe('newlyUnlocked', () => {
+  it('returns achievements reached by the stats', () => {
+    expect(newlyUnlocked({ ...NO_STATS, speed: 60 }, []).map(achievement => achievement.id))
+      .toEqual(['speed-30', 'speed-60']);
+  });
+
+  it('skips achievements already held, by id or old title', () => {
+    expect(newlyUnlocked({ ...NO_STATS, points: 150, speed: 60 }, ['speed-30', 'Sanskrit Learner']).map(achievement => achievement.id))
+      .toEqual(['speed-60']);
+  });
+});
+
+describe('resolveAchievementId', () => {
+  it('maps titles stored by older versions to ids', () => {
+    expect(resolveAchievementId('Sanskrit Learner')).toBe('points-100');
+    expect(resolveAchievementId('Divine Devotee Certificate')).toBe('points-1000');
+  });
+
+  it('leaves ids and unknown names as they are', () => {
+    expect(resolveAchievementId('streak-7')).toBe('streak-7');
+    expect(resolveAchievementId('Retired Badge')).toBe('Retired Badge');
+  });
+});
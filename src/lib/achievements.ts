@@ -0,0 +1,202 @@
+import { parseISO } from 'date-fns';
+import type { MalaProgress } from '@/lib/mala';
+import type { PracticeHistory, RepetitionRecord } from '@/lib/history';
+import { SCRIPTS } from '@/lib/scripts';
+import { calculateStreaks, localDayKey } from '@/lib/streaks';
+
+export type AchievementTier = 'beginner' | 'bronze' | 'silver' | 'gold' | 'divine';
+
+export const ACHIEVEMENT_TIERS: AchievementTier[] = ['beginner', 'bronze', 'silver', 'gold', 'divine'];
+
+// Tailwind classes of each tier's medallion and badge
+export const TIER_STYLES: Record<AchievementTier, { label: string; className: string }> = {
+  beginner: { label: 'Beginner', className: 'bg-muted text-foreground' },
+  bronze: { label: 'Bronze', className: 'bg-amber-700 text-white' },
+  silver: { label: 'Silver', className: 'bg-slate-400 text-white' },
+  gold: { label: 'Gold', className: 'bg-yellow-500 text-white' },
+  divine: { label: 'Divine', className: 'bg-gradient-spiritual text-white' },
+};
+
+// Measures an achievement can be unlocked by
+export type AchievementMetric =
+  | 'points'
+  | 'streak'
+  | 'perfectRun'
+  | 'malas'
+  | 'brahmaMuhurta'
+  | 'scripts'
+  | 'speed';
+
+// Icon names, mapped to icons by the UI
+export type AchievementIcon =
+  | 'star' | 'award' | 'trophy' | 'sunrise' | 'flame' | 'calendar'
+  | 'target' | 'beads' | 'moon' | 'languages' | 'zap';
+
+export interface Achievement {
+  // Stored when unlocked, so never change it
+  id: string;
+  title: string;
+  description: string;
+  icon: AchievementIcon;
+  tier: AchievementTier;
+  metric: AchievementMetric;
+  // Value of the metric that unlocks the achievement
+  goal: number;
+}
+
+export type AchievementStats = Record<AchievementMetric, number>;
+
+export interface AchievementProgress {
+  achievement: Achievement;
+  unlocked: boolean;
+  current: number;
+  // 0–1 share of the goal reached
+  ratio: number;
+}
+
+export const METRIC_LABELS: Record<AchievementMetric, string> = {
+  points: 'Points',
+  streak: 'Daily Streaks',
+  perfectRun: 'Flawless Runs',
+  malas: 'Malas',
+  brahmaMuhurta: 'Brahma Muhurta',
+  scripts: 'Scripts',
+  speed: 'Typing Speed',
+};
+
+// How each measure is counted, shown with an achievement's details
+export const METRIC_DETAILS: Record<AchievementMetric, string> = {
+  points: 'Points are earned for every accepted repetition and completed session.',
+  streak: 'Your longest run of consecutive days with at least one repetition.',
+  perfectRun: 'Consecutive typed repetitions accepted exactly without pressing backspace. Count-only japa does not break a run.',
+  malas: 'Each mala is 108 japa, counted on the mala in japa or count-only mode.',
+  brahmaMuhurta: 'Days with a repetition between 4 and 6 a.m., the auspicious hours before sunrise.',
+  scripts: 'Different scripts you have typed a mantra in: Devanagari, IAST, ITRANS and Hinglish.',
+  speed: 'Your fastest typed repetition, in aksharas (syllables) per minute.',
+};
+
+// Units shown next to progress, e.g. "4 / 7 days"
+export const METRIC_UNITS: Record<AchievementMetric, string> = {
+  points: 'points',
+  streak: 'days',
+  perfectRun: 'repetitions',
+  malas: 'malas',
+  brahmaMuhurta: 'days',
+  scripts: 'scripts',
+  speed: 'aksharas/min',
+};
+
+export const ACHIEVEMENTS: Achievement[] = [
+  { id: 'points-100', title: 'Sanskrit Learner', description: 'Earn 100 points', icon: 'star', tier: 'beginner', metric: 'points', goal: 100 },
+  { id: 'points-500', title: 'Bronze Mantra Medal', description: 'Earn 500 points', icon: 'award', tier: 'bronze', metric: 'points', goal: 500 },
+  { id: 'points-1000', title: 'Divine Devotee Certificate', description: 'Earn 1000 points', icon: 'trophy', tier: 'divine', metric: 'points', goal: 1000 },
+
+  { id: 'streak-3', title: 'Three-Day Sadhana', description: 'Practise 3 days in a row', icon: 'sunrise', tier: 'beginner', metric: 'streak', goal: 3 },
+  { id: 'streak-7', title: 'Saptaha Tapasya', description: 'Practise 7 days in a row', icon: 'flame', tier: 'bronze', metric: 'streak', goal: 7 },
+  { id: 'streak-30', title: 'Month of Devotion', description: 'Practise 30 days in a row', icon: 'calendar', tier: 'silver', metric: 'streak', goal: 30 },
+  { id: 'streak-108', title: 'Anushthana', description: 'Practise 108 days in a row', icon: 'calendar', tier: 'gold', metric: 'streak', goal: 108 },
+
+  { id: 'perfect-3', title: 'Steady Hand', description: 'Type 3 flawless repetitions in a row', icon: 'target', tier: 'beginner', metric: 'perfectRun', goal: 3 },
+  { id: 'perfect-11', title: 'Flawless Scribe', description: 'Type 11 flawless repetitions in a row', icon: 'target', tier: 'bronze', metric: 'perfectRun', goal: 11 },
+  { id: 'perfect-108', title: 'Perfect Mala', description: 'Type 108 flawless repetitions in a row', icon: 'target', tier: 'gold', metric: 'perfectRun', goal: 108 },
+
+  { id: 'malas-1', title: 'First Mala', description: 'Complete a mala of 108 japa', icon: 'beads', tier: 'beginner', metric: 'malas', goal: 1 },
+  { id: 'malas-11', title: 'Ekadasha Mala', description: 'Complete 11 malas of 108 japa', icon: 'beads', tier: 'silver', metric: 'malas', goal: 11 },
+  { id: 'malas-108', title: 'Ashtottara Mala', description: 'Complete 108 malas of 108 japa', icon: 'beads', tier: 'divine', metric: 'malas', goal: 108 },
+
+  { id: 'brahma-muhurta-1', title: 'Early Riser', description: 'Practise during Brahma muhurta', icon: 'moon', tier: 'beginner', metric: 'brahmaMuhurta', goal: 1 },
+  { id: 'brahma-muhurta-7', title: 'Brahma Muhurta Sadhak', description: 'Practise during Brahma muhurta on 7 days', icon: 'moon', tier: 'silver', metric: 'brahmaMuhurta', goal: 7 },
+  { id: 'brahma-muhurta-30', title: 'Rishi of Dawn', description: 'Practise during Brahma muhurta on 30 days', icon: 'moon', tier: 'gold', metric: 'brahmaMuhurta', goal: 30 },
+
+  { id: 'scripts-2', title: 'Two Scripts', description: 'Write a mantra in 2 different scripts', icon: 'languages', tier: 'beginner', metric: 'scripts', goal: 2 },
+  { id: 'scripts-all', title: 'Every Script', description: `Write a mantra in all ${SCRIPTS.length} scripts`, icon: 'languages', tier: 'silver', metric: 'scripts', goal: SCRIPTS.length },
+
+  { id: 'speed-30', title: 'Swift Pen', description: 'Type a repetition at 30 aksharas per minute', icon: 'zap', tier: 'beginner', metric: 'speed', goal: 30 },
+  { id: 'speed-60', title: 'Fluent Scribe', description: 'Type a repetition at 60 aksharas per minute', icon: 'zap', tier: 'bronze', metric: 'speed', goal: 60 },
+  { id: 'speed-100', title: 'Lightning Lekhan', description: 'Type a repetition at 100 aksharas per minute', icon: 'zap', tier: 'gold', metric: 'speed', goal: 100 },
+];
+
+// Achievements were stored by title before they had ids
+const LEGACY_IDS: Record<string, string> = Object.fromEntries(
+  ACHIEVEMENTS.map(achievement => [achievement.title, achievement.id])
+);
+
+export const resolveAchievementId = (stored: string): string => LEGACY_IDS[stored] ?? stored;
+
+export const getAchievement = (id: string): Achievement | undefined =>
+  ACHIEVEMENTS.find(achievement => achievement.id === resolveAchievementId(id));
+
+// Brahma muhurta falls before sunrise; with sunrise varying by place and
+// season it is taken as 4–6 a.m. local time
+const BRAHMA_MUHURTA_HOURS = [4, 6];
+
+export const isBrahmaMuhurta = (date: Date): boolean =>
+  date.getHours() >= BRAHMA_MUHURTA_HOURS[0] && date.getHours() < BRAHMA_MUHURTA_HOURS[1];
+
+// A typed repetition accepted exactly, without a single correction
+export const isFlawless = (record: RepetitionRecord): boolean =>
+  record.source === 'typed' && record.accuracy === 100 && record.metrics?.backspaces === 0;
+
+// Longest run of consecutive flawless typed repetitions; count-only japa is skipped
+const longestPerfectRun = (repetitions: RepetitionRecord[]): number => {
+  let longest = 0;
+  let run = 0;
+  repetitions.forEach(record => {
+    if (record.source !== 'typed') return;
+    run = isFlawless(record) ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  });
+  return longest;
+};
+
+export const collectAchievementStats = (
+  progress: { totalPoints: number; mala: MalaProgress; history: PracticeHistory },
+  now = new Date()
+): AchievementStats => {
+  const { repetitions } = progress.history;
+  const typed = repetitions.filter(record => record.source === 'typed');
+  const dawnDays = new Set(
+    repetitions
+      .map(record => parseISO(record.timestamp))
+      .filter(isBrahmaMuhurta)
+      .map(localDayKey)
+  );
+
+  return {
+    points: progress.totalPoints,
+    streak: calculateStreaks(progress.history, now).longest,
+    perfectRun: longestPerfectRun(repetitions),
+    malas: progress.mala.completedMalas,
+    brahmaMuhurta: dawnDays.size,
+    scripts: new Set(typed.map(record => record.script)).size,
+    speed: Math.max(0, ...typed.map(record => record.metrics?.aksharasPerMinute ?? 0)),
+  };
+};
+
+// Progress of every achievement, in catalogue order
+export const evaluateAchievements = (stats: AchievementStats, unlockedIds: string[]): AchievementProgress[] => {
+  const unlocked = new Set(unlockedIds.map(resolveAchievementId));
+  return ACHIEVEMENTS.map(achievement => {
+    const current = stats[achievement.metric];
+    const isUnlocked = unlocked.has(achievement.id) || current >= achievement.goal;
+    return {
+      achievement,
+      unlocked: isUnlocked,
+      current,
+      ratio: isUnlocked ? 1 : Math.min(1, current / achievement.goal),
+    };
+  });
+};
+
+// Achievements reached by the stats that were not unlocked before
+export const newlyUnlocked = (stats: AchievementStats, unlockedIds: string[]): Achievement[] => {
+  const unlocked = new Set(unlockedIds.map(resolveAchievementId));
+  return ACHIEVEMENTS.filter(achievement => !unlocked.has(achievement.id) && stats[achievement.metric] >= achievement.goal);
+};
+
+// Locked achievements closest to being unlocked
+export const nextAchievements = (progress: AchievementProgress[], count: number): AchievementProgress[] =>
+  progress
+    .filter(item => !item.unlocked)
+    .sort((a, b) => b.ratio - a.ratio || ACHIEVEMENT_TIERS.indexOf(a.achievement.tier) - ACHIEVEMENT_TIERS.indexOf(b.achievement.tier))
+    .slice(0, count);
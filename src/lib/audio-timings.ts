@@ -0,0 +1,37 @@
+import type { MantraAudio, MantraPhrase, WordTiming } from '@/lib/mantras';
+
+// Position within the first recitation; later recitations repeat its timings
+const recitationTime = (audio: MantraAudio, time: number) => {
+  const first = audio.timings?.[0]?.start ?? 0;
+  if (!audio.repeatEvery || time < first) return time;
+  return first + ((time - first) % audio.repeatEvery);
+};
+
+// Word being chanted at the given playback time, or null between words
+export const wordAtTime = (audio: MantraAudio, time: number): number | null => {
+  const position = recitationTime(audio, time);
+  const timing = audio.timings?.find(({ start, end }) => position >= start && position < end);
+  return timing ? timing.word : null;
+};
+
+export const getWordTiming = (audio: MantraAudio, word: number): WordTiming | undefined =>
+  audio.timings?.find(timing => timing.word === word);
+
+// Where to seek to hear a word, staying within the recitation playing now
+export const wordStartTime = (audio: MantraAudio, word: number, currentTime: number): number | null => {
+  const timing = getWordTiming(audio, word);
+  if (!timing) return null;
+  if (!audio.repeatEvery) return timing.start;
+
+  const first = audio.timings[0].start;
+  const recitation = Math.max(0, Math.floor((currentTime - first) / audio.repeatEvery));
+  return timing.start + recitation * audio.repeatEvery;
+};
+
+// Audio segment of a phrase in the first recitation, from the start of its
+// first word to the end of its last
+export const phraseSegment = (audio: MantraAudio, phrase: MantraPhrase): { start: number; end: number } | null => {
+  const first = getWordTiming(audio, phrase.start);
+  const last = getWordTiming(audio, phrase.end - 1);
+  return first && last ? { start: first.start, end: last.end } : null;
+};
@@ -0,0 +1,162 @@
+import { format } from 'date-fns';
+import { z } from 'zod';
+import { getMantra } from '@/lib/mantras';
+import { mergeHistory, type PracticeHistory, type SessionRecord } from '@/lib/history';
+import { saveProgress, type ProgressTotals } from '@/lib/progress';
+import {
+  achievementRecordSchema,
+  repetitionRecordSchema,
+  sessionRecordSchema,
+  strictProgressTotalsSchema,
+} from '@/lib/progress-schema';
+import type { AchievementRecord, PracticeStore } from '@/lib/practice-store';
+import type { RecallProgress } from '@/lib/recall';
+
+const BACKUP_FORMAT = 'mantra-practice-backup';
+const BACKUP_VERSION = 1;
+
+// Everything needed to restore a user's practice on another device
+export interface PracticeBackup {
+  exportedAt: string;
+  totals: ProgressTotals;
+  achievements: AchievementRecord[];
+  history: PracticeHistory;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportPreview {
+  repetitions: [before: number, after: number];
+  sessions: [before: number, after: number];
+  achievements: [before: number, after: number];
+  totalPoints: [before: number, after: number];
+}
+
+// Unlike stored progress, an imported file is rejected as a whole when any
+// record is invalid, so a damaged backup never half-replaces good data
+const backupSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().max(BACKUP_VERSION, 'This backup was made by a newer version of the app'),
+  exportedAt: z.string().datetime(),
+  totals: strictProgressTotalsSchema,
+  achievements: z.array(achievementRecordSchema),
+  history: z.object({
+    repetitions: z.array(repetitionRecordSchema),
+    sessions: z.array(sessionRecordSchema),
+  }),
+});
+
+export const createBackup = async (totals: ProgressTotals, store: PracticeStore, now = new Date()): Promise<PracticeBackup> => {
+  const [repetitions, sessions, achievements] = await Promise.all([
+    store.getRepetitions(),
+    store.getSessions(),
+    store.getAchievements(),
+  ]);
+  const { totalPoints, completedSessions, mala, recall } = totals;
+  return {
+    exportedAt: now.toISOString(),
+    totals: { totalPoints, completedSessions, mala, recall },
+    achievements,
+    history: { repetitions, sessions },
+  };
+};
+
+export const backupToJson = (backup: PracticeBackup) =>
+  JSON.stringify({ format: BACKUP_FORMAT, version: BACKUP_VERSION, ...backup }, null, 2);
+
+export const parseBackup = (text: string): PracticeBackup => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const result = backupSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.join('.');
+    throw new Error(issue.code === 'invalid_literal' && path === 'format'
+      ? 'The file is not a mantra practice backup'
+      : `Invalid backup${path ? ` at ${path}` : ''}: ${issue.message}`);
+  }
+
+  const { exportedAt, totals, achievements, history } = result.data;
+  return { exportedAt, totals, achievements, history } as PracticeBackup;
+};
+
+const CSV_COLUMNS: Array<[header: string, value: (session: SessionRecord) => string | number | undefined]> = [
+  ['Started', session => session.startedAt],
+  ['Completed', session => session.completedAt],
+  ['Mantra', session => getMantra(session.mantraId).title],
+  ['Script', session => session.script],
+  ['Repetitions', session => session.repetitions],
+  ['Points', session => session.points],
+  ['First-try accuracy (%)', session => session.accuracy],
+  ['Aksharas per minute', session => session.charactersPerMinute],
+  ['Words per minute', session => session.wordsPerMinute],
+];
+
+const csvCell = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per completed session, for spreadsheets
+export const sessionsToCsv = (sessions: SessionRecord[]) =>
+  [
+    CSV_COLUMNS.map(([header]) => csvCell(header)).join(','),
+    ...sessions.map(session => CSV_COLUMNS.map(([, value]) => csvCell(value(session))).join(',')),
+  ].join('\n');
+
+// Memorisation of each mantra from whichever side has practised it more
+const mergeRecall = (current: RecallProgress, incoming: RecallProgress): RecallProgress =>
+  Object.fromEntries(Object.entries(current).map(([mantraId, recall]) => [
+    mantraId,
+    (incoming[mantraId]?.round ?? -1) > recall.round ? incoming[mantraId] : recall,
+  ]));
+
+// Merging keeps every record from both sides, the earliest unlock of each
+// achievement, the higher totals and the further memorisation of each mantra
+const mergeBackups = (current: PracticeBackup, incoming: PracticeBackup): PracticeBackup => {
+  const achievements = new Map<string, AchievementRecord>();
+  [...current.achievements, ...incoming.achievements].forEach(record => {
+    const existing = achievements.get(record.id);
+    if (!existing || (record.unlockedAt && (!existing.unlockedAt || record.unlockedAt < existing.unlockedAt))) {
+      achievements.set(record.id, record);
+    }
+  });
+
+  return {
+    exportedAt: current.exportedAt,
+    totals: {
+      totalPoints: Math.max(current.totals.totalPoints, incoming.totals.totalPoints),
+      completedSessions: Math.max(current.totals.completedSessions, incoming.totals.completedSessions),
+      mala: current.totals.mala.totalCount >= incoming.totals.mala.totalCount ? current.totals.mala : incoming.totals.mala,
+      recall: { ...incoming.totals.recall, ...mergeRecall(current.totals.recall, incoming.totals.recall) },
+    },
+    achievements: [...achievements.values()],
+    history: mergeHistory(current.history, incoming.history),
+  };
+};
+
+// The practice data that an import would leave behind
+export const planImport = (current: PracticeBackup, incoming: PracticeBackup, mode: ImportMode): PracticeBackup =>
+  mode === 'replace' ? incoming : mergeBackups(current, incoming);
+
+export const previewImport = (current: PracticeBackup, planned: PracticeBackup): ImportPreview => ({
+  repetitions: [current.history.repetitions.length, planned.history.repetitions.length],
+  sessions: [current.history.sessions.length, planned.history.sessions.length],
+  achievements: [current.achievements.length, planned.achievements.length],
+  totalPoints: [current.totals.totalPoints, planned.totals.totalPoints],
+});
+
+// Totals are only saved once the records are in, so a failed import
+// changes nothing
+export const applyImport = async (planned: PracticeBackup, store: PracticeStore) => {
+  await store.replaceAll({ ...planned.history, achievements: planned.achievements });
+  saveProgress(planned.totals);
+};
+
+export const backupFileName = (extension: 'json' | 'csv', now = new Date()) =>
+  `mantra-practice-${format(now, 'yyyy-MM-dd')}.${extension}`;
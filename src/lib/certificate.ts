@@ -0,0 +1,203 @@
+import { format, parseISO } from 'date-fns';
+import type { Achievement } from '@/lib/achievements';
+import type { PracticeHistory } from '@/lib/history';
+import { DEFAULT_MANTRA_ID, getMantra } from '@/lib/mantras';
+
+export interface CertificateData {
+  name: string;
+  achievementTitle: string;
+  achievementDescription: string;
+  date: Date;
+  totalRepetitions: number;
+  mantraTitle: string;
+  // Opening words of the mantra in Devanagari
+  mantraLine: string;
+}
+
+// Colours taken from the app's design tokens when the certificate is drawn
+export interface CertificateColors {
+  saffron: string;
+  maroon: string;
+  gold: string;
+  cream: string;
+  ink: string;
+  muted: string;
+}
+
+export type CertificateFont = 'serif' | 'devanagari';
+
+export type CertificateElement =
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; fill?: string; stroke?: string; strokeWidth?: number }
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number; stroke: string; strokeWidth: number }
+  | { kind: 'text'; text: string; x: number; y: number; size: number; color: string; font: CertificateFont; weight?: number; italic?: boolean };
+
+// A4 landscape proportions
+export const CERTIFICATE_WIDTH = 1414;
+export const CERTIFICATE_HEIGHT = 1000;
+
+const FONT_FAMILIES: Record<CertificateFont, string> = {
+  serif: "'Crimson Text', serif",
+  devanagari: "'Noto Sans Devanagari', serif",
+};
+
+const MANTRA_LINE_LENGTH = 36;
+
+const FALLBACK_COLORS: CertificateColors = {
+  saffron: 'hsl(22 100% 50%)',
+  maroon: 'hsl(347 83% 47%)',
+  gold: 'hsl(45 100% 65%)',
+  cream: 'hsl(39 100% 97%)',
+  ink: 'hsl(15 25% 15%)',
+  muted: 'hsl(15 15% 40%)',
+};
+
+export const readCertificateColors = (): CertificateColors => {
+  const styles = getComputedStyle(document.documentElement);
+  const token = (name: string, fallback: string) => {
+    const value = styles.getPropertyValue(name).trim();
+    return value ? `hsl(${value})` : fallback;
+  };
+  return {
+    saffron: token('--primary', FALLBACK_COLORS.saffron),
+    maroon: token('--secondary', FALLBACK_COLORS.maroon),
+    gold: token('--accent', FALLBACK_COLORS.gold),
+    cream: token('--background', FALLBACK_COLORS.cream),
+    ink: token('--foreground', FALLBACK_COLORS.ink),
+    muted: token('--muted-foreground', FALLBACK_COLORS.muted),
+  };
+};
+
+// First words of the mantra that fit on one line
+const openingWords = (words: string[]) => {
+  let line = '';
+  for (const word of words) {
+    const next = line ? `${line} ${word}` : word;
+    if (next.length > MANTRA_LINE_LENGTH) return `${line} …`;
+    line = next;
+  }
+  return line;
+};
+
+// Certificate for an achievement, describing practice up to its unlock
+export const buildCertificateData = (
+  name: string,
+  achievement: Achievement,
+  history: PracticeHistory,
+  unlockedAt?: string
+): CertificateData => {
+  const repetitions = unlockedAt
+    ? history.repetitions.filter(record => record.timestamp <= unlockedAt)
+    : history.repetitions;
+  const mantra = getMantra(repetitions[repetitions.length - 1]?.mantraId ?? DEFAULT_MANTRA_ID);
+
+  return {
+    name,
+    achievementTitle: achievement.title,
+    achievementDescription: achievement.description,
+    date: unlockedAt ? parseISO(unlockedAt) : new Date(),
+    totalRepetitions: repetitions.length,
+    mantraTitle: mantra.title,
+    mantraLine: openingWords(mantra.words),
+  };
+};
+
+export const layoutCertificate = (data: CertificateData, colors: CertificateColors): CertificateElement[] => {
+  const center = CERTIFICATE_WIDTH / 2;
+  const text = (value: string, y: number, size: number, color: string, extra: Partial<Extract<CertificateElement, { kind: 'text' }>> = {}) =>
+    ({ kind: 'text', text: value, x: center, y, size, color, font: 'serif', ...extra }) as CertificateElement;
+
+  return [
+    { kind: 'rect', x: 0, y: 0, width: CERTIFICATE_WIDTH, height: CERTIFICATE_HEIGHT, fill: colors.cream },
+    { kind: 'rect', x: 30, y: 30, width: CERTIFICATE_WIDTH - 60, height: CERTIFICATE_HEIGHT - 60, stroke: colors.saffron, strokeWidth: 14 },
+    { kind: 'rect', x: 60, y: 60, width: CERTIFICATE_WIDTH - 120, height: CERTIFICATE_HEIGHT - 120, stroke: colors.maroon, strokeWidth: 3 },
+    { kind: 'rect', x: 72, y: 72, width: CERTIFICATE_WIDTH - 144, height: CERTIFICATE_HEIGHT - 144, stroke: colors.gold, strokeWidth: 2 },
+
+    text('ॐ', 180, 80, colors.saffron, { font: 'devanagari' }),
+    text('Certificate of Achievement', 270, 68, colors.maroon, { weight: 600 }),
+    text('This certifies that', 350, 30, colors.muted, { italic: true }),
+    text(data.name, 440, 76, colors.saffron, { weight: 600 }),
+    { kind: 'line', x1: center - 300, y1: 470, x2: center + 300, y2: 470, stroke: colors.gold, strokeWidth: 2 },
+    text('has earned', 525, 30, colors.muted, { italic: true }),
+    text(data.achievementTitle, 595, 54, colors.maroon, { weight: 600 }),
+    text(data.achievementDescription, 640, 26, colors.ink),
+    text(`through devoted practice of the ${data.mantraTitle}`, 700, 28, colors.ink, { italic: true }),
+    text(data.mantraLine, 760, 34, colors.saffron, { font: 'devanagari' }),
+
+    { kind: 'line', x1: 200, y1: 860, x2: 500, y2: 860, stroke: colors.maroon, strokeWidth: 1.5 },
+    { kind: 'text', text: format(data.date, 'd MMMM yyyy'), x: 350, y: 845, size: 28, color: colors.ink, font: 'serif' },
+    { kind: 'text', text: 'Date', x: 350, y: 890, size: 22, color: colors.muted, font: 'serif' },
+    { kind: 'line', x1: CERTIFICATE_WIDTH - 500, y1: 860, x2: CERTIFICATE_WIDTH - 200, y2: 860, stroke: colors.maroon, strokeWidth: 1.5 },
+    { kind: 'text', text: data.totalRepetitions.toLocaleString(), x: CERTIFICATE_WIDTH - 350, y: 845, size: 28, color: colors.ink, font: 'serif' },
+    { kind: 'text', text: 'Total repetitions', x: CERTIFICATE_WIDTH - 350, y: 890, size: 22, color: colors.muted, font: 'serif' },
+    text('Gayatri Mantra Lekhan', 880, 24, colors.saffron, { weight: 600 }),
+  ];
+};
+
+export const fontFamily = (font: CertificateFont) => FONT_FAMILIES[font];
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Standalone SVG document; fonts fall back to a serif where not installed
+export const certificateToSvg = (elements: CertificateElement[]): string => {
+  const body = elements.map(element => {
+    if (element.kind === 'rect') {
+      return `<rect x="${element.x}" y="${element.y}" width="${element.width}" height="${element.height}" fill="${element.fill ?? 'none'}"${element.stroke ? ` stroke="${element.stroke}" stroke-width="${element.strokeWidth ?? 1}"` : ''}/>`;
+    }
+    if (element.kind === 'line') {
+      return `<line x1="${element.x1}" y1="${element.y1}" x2="${element.x2}" y2="${element.y2}" stroke="${element.stroke}" stroke-width="${element.strokeWidth}"/>`;
+    }
+    return `<text x="${element.x}" y="${element.y}" text-anchor="middle" font-family="${escapeXml(FONT_FAMILIES[element.font])}" font-size="${element.size}" font-weight="${element.weight ?? 400}"${element.italic ? ' font-style="italic"' : ''} fill="${element.color}">${escapeXml(element.text)}</text>`;
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${CERTIFICATE_WIDTH}" height="${CERTIFICATE_HEIGHT}" viewBox="0 0 ${CERTIFICATE_WIDTH} ${CERTIFICATE_HEIGHT}">`,
+    ...body,
+    '</svg>',
+  ].join('\n');
+};
+
+export const certificateToPng = async (elements: CertificateElement[], scale = 2): Promise<Blob> => {
+  // Make sure the web fonts are ready before drawing text with them
+  await document.fonts.ready;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = CERTIFICATE_WIDTH * scale;
+  canvas.height = CERTIFICATE_HEIGHT * scale;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported in this browser');
+  context.scale(scale, scale);
+  context.textAlign = 'center';
+
+  elements.forEach(element => {
+    if (element.kind === 'rect') {
+      if (element.fill) {
+        context.fillStyle = element.fill;
+        context.fillRect(element.x, element.y, element.width, element.height);
+      }
+      if (element.stroke) {
+        context.strokeStyle = element.stroke;
+        context.lineWidth = element.strokeWidth ?? 1;
+        context.strokeRect(element.x, element.y, element.width, element.height);
+      }
+    } else if (element.kind === 'line') {
+      context.strokeStyle = element.stroke;
+      context.lineWidth = element.strokeWidth;
+      context.beginPath();
+      context.moveTo(element.x1, element.y1);
+      context.lineTo(element.x2, element.y2);
+      context.stroke();
+    } else {
+      context.fillStyle = element.color;
+      context.font = `${element.italic ? 'italic ' : ''}${element.weight ?? 400} ${element.size}px ${FONT_FAMILIES[element.font]}`;
+      context.fillText(element.text, element.x, element.y);
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not create the PNG image'))), 'image/png');
+  });
+};
+
+export const certificateFileName = (data: CertificateData, extension: 'png' | 'svg') =>
+  `certificate-${data.achievementTitle.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.${extension}`;
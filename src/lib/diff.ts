@@ -0,0 +1,143 @@
+export type DiffStatus = 'correct' | 'wrong' | 'missing' | 'extra' | 'pending';
+
+export interface DiffSegment {
+  status: DiffStatus;
+  // Grapheme from the target mantra (absent for extra input)
+  expected?: string;
+  // Grapheme typed by the user (absent for missing/pending)
+  actual?: string;
+}
+
+export interface DiffSummary {
+  correct: number;
+  wrong: number;
+  missing: number;
+  extra: number;
+  pending: number;
+}
+
+type AlignmentOp =
+  | { type: 'match' | 'substitute'; targetIndex: number; inputIndex: number }
+  | { type: 'delete'; targetIndex: number }
+  | { type: 'insert'; inputIndex: number };
+
+const graphemeSegmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+  ? new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+  : null;
+
+// Split text into user-perceived characters (aksharas for Devanagari)
+export const splitGraphemes = (text: string): string[] => {
+  if (!graphemeSegmenter) return Array.from(text);
+  return Array.from(graphemeSegmenter.segment(text), ({ segment }) => segment);
+};
+
+// Levenshtein alignment between two sequences, returned as a list of edit operations.
+// In prefix mode the input is treated as a partial attempt: untyped target
+// elements at the end cost nothing and are returned as trailing deletes.
+export const alignSequences = <T>(
+  target: T[],
+  input: T[],
+  equals: (a: T, b: T) => boolean = (a, b) => a === b,
+  prefix = false
+): AlignmentOp[] => {
+  const rows = target.length + 1;
+  const cols = input.length + 1;
+  const cost: number[][] = Array.from({ length: rows }, () => new Array<number>(cols).fill(0));
+
+  for (let i = 0; i < rows; i++) cost[i][0] = i;
+  for (let j = 0; j < cols; j++) cost[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const substitution = equals(target[i - 1], input[j - 1]) ? 0 : 1;
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + substitution,
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1
+      );
+    }
+  }
+
+  let end = target.length;
+  if (prefix) {
+    for (let i = target.length - 1; i >= 0; i--) {
+      if (cost[i][input.length] < cost[end][input.length]) end = i;
+    }
+  }
+
+  // Walk back from the end of the alignment, preferring diagonal moves
+  const ops: AlignmentOp[] = [];
+  for (let k = target.length - 1; k >= end; k--) {
+    ops.push({ type: 'delete', targetIndex: k });
+  }
+  let i = end;
+  let j = input.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const same = equals(target[i - 1], input[j - 1]);
+      if (cost[i][j] === cost[i - 1][j - 1] + (same ? 0 : 1)) {
+        ops.push({ type: same ? 'match' : 'substitute', targetIndex: i - 1, inputIndex: j - 1 });
+        i--;
+        j--;
+        continue;
+      }
+    }
+    if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      ops.push({ type: 'delete', targetIndex: i - 1 });
+      i--;
+    } else {
+      ops.push({ type: 'insert', inputIndex: j - 1 });
+      j--;
+    }
+  }
+
+  return ops.reverse();
+};
+
+const normalizeForDiff = (text: string): string =>
+  text.replace(/[।॥]/g, '').replace(/\s+/g, ' ').trim();
+
+// Compare typed text against the target grapheme by grapheme.
+// Target graphemes after the last typed one are reported as 'pending'
+// rather than 'missing', so partial input is not shown as a mistake.
+export const diffText = (
+  input: string,
+  target: string,
+  options: { ignoreCase?: boolean } = {}
+): DiffSegment[] => {
+  const targetGraphemes = splitGraphemes(normalizeForDiff(target));
+  const inputGraphemes = splitGraphemes(normalizeForDiff(input));
+  const equals = options.ignoreCase
+    ? (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+    : undefined;
+
+  const ops = alignSequences(targetGraphemes, inputGraphemes, equals, true);
+
+  let lastTyped = -1;
+  ops.forEach((op, index) => {
+    if (op.type !== 'delete') lastTyped = index;
+  });
+
+  return ops.map((op, index): DiffSegment => {
+    switch (op.type) {
+      case 'match':
+        return { status: 'correct', expected: targetGraphemes[op.targetIndex], actual: inputGraphemes[op.inputIndex] };
+      case 'substitute':
+        return { status: 'wrong', expected: targetGraphemes[op.targetIndex], actual: inputGraphemes[op.inputIndex] };
+      case 'insert':
+        return { status: 'extra', actual: inputGraphemes[op.inputIndex] };
+      case 'delete':
+        return { status: index > lastTyped ? 'pending' : 'missing', expected: targetGraphemes[op.targetIndex] };
+    }
+  });
+};
+
+export const summarizeDiff = (segments: DiffSegment[]): DiffSummary => {
+  const summary: DiffSummary = { correct: 0, wrong: 0, missing: 0, extra: 0, pending: 0 };
+  segments.forEach(segment => {
+    // Spacing is shown but not counted as akshara errors
+    if (!segment.expected?.trim() && !segment.actual?.trim()) return;
+    summary[segment.status]++;
+  });
+  return summary;
+};
@@ -0,0 +1,9 @@
+// Save generated content as a file through the browser's download flow
+export const downloadFile = (fileName: string, content: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,114 @@
+// Spelling-variant tolerance for loose Roman ("Hinglish") input
+
+export type WordMatchStatus = 'exact' | 'variant' | 'wrong' | 'missing' | 'pending' | 'extra';
+
+export interface WordMatch {
+  status: WordMatchStatus;
+  // Target words covered by this match (empty for extra input)
+  target: string[];
+  // Input words used by this match (empty for missing/pending)
+  input: string[];
+}
+
+// Phonetic normalization rules, applied in order. Two spellings with the
+// same key are treated as the same word.
+const PHONETIC_RULES: Array<[RegExp, string]> = [
+  [/w/g, 'v'],                 // swah → svah
+  [/ee|ii|ie/g, 'i'],          // dheemahi → dhimahi
+  [/oo|uu/g, 'u'],             // bhoor → bhur
+  [/chh|cch/g, 'ch'],
+  [/ch|c/g, 'c'],              // pracodayat → prachodayat
+  [/sh|s/g, 's'],              // siva → shiva, ṣ/ś spelt sh
+  [/ri|ru/g, 'r'],             // amrutam, amrtam → amritam
+  [/([a-z])\1+/g, '$1'],       // prachodayaat → prachodayat, tatt → tat
+  [/aha$/, 'ah'],              // visarga spelt svaha → svah
+];
+
+const keyCache = new Map<string, string>();
+
+export const phoneticKey = (word: string): string => {
+  const cached = keyCache.get(word);
+  if (cached !== undefined) return cached;
+
+  let key = word
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z]/g, '');
+  PHONETIC_RULES.forEach(([pattern, replacement]) => {
+    key = key.replace(pattern, replacement);
+  });
+  keyCache.set(word, key);
+  return key;
+};
+
+// Longest run of words that may be joined or split, e.g. "bhur bhuvah" ↔ "bhurbhuvah"
+const MAX_GROUP = 3;
+
+const groupKey = (words: string[]) => phoneticKey(words.join(''));
+
+// Align input words against target words, allowing phonetic variants and
+// joined/split words. With `partial` the untyped tail is reported as pending.
+export const matchWords = (input: string[], target: string[], partial = false): WordMatch[] => {
+  const rows = target.length + 1;
+  const cols = input.length + 1;
+  const cost: number[][] = Array.from({ length: rows }, () => new Array<number>(cols).fill(Infinity));
+  const step: Array<Array<[number, number] | null>> = Array.from({ length: rows }, () => new Array(cols).fill(null));
+  cost[0][0] = 0;
+
+  for (let i = 0; i < rows; i++) {
+    for (let j = 0; j < cols; j++) {
+      if (cost[i][j] === Infinity) continue;
+      const relax = (di: number, dj: number, extra: number) => {
+        if (i + di < rows && j + dj < cols && cost[i][j] + extra < cost[i + di][j + dj]) {
+          cost[i + di][j + dj] = cost[i][j] + extra;
+          step[i + di][j + dj] = [di, dj];
+        }
+      };
+
+      relax(1, 0, 1);
+      relax(0, 1, 1);
+      for (let di = 1; di <= MAX_GROUP; di++) {
+        for (let dj = 1; dj <= MAX_GROUP; dj++) {
+          if (di > 1 && dj > 1) continue;
+          if (i + di >= rows || j + dj >= cols) continue;
+          const same = groupKey(target.slice(i, i + di)) === groupKey(input.slice(j, j + dj));
+          if (same) relax(di, dj, 0);
+          else if (di === 1 && dj === 1) relax(1, 1, 1);
+        }
+      }
+    }
+  }
+
+  let end = target.length;
+  if (partial) {
+    for (let i = target.length - 1; i >= 0; i--) {
+      if (cost[i][input.length] < cost[end][input.length]) end = i;
+    }
+  }
+
+  const matches: WordMatch[] = [];
+  let i = end;
+  let j = input.length;
+  while (i > 0 || j > 0) {
+    const [di, dj] = step[i][j];
+    const targetWords = target.slice(i - di, i);
+    const inputWords = input.slice(j - dj, j);
+    let status: WordMatchStatus;
+    if (di === 0) status = 'extra';
+    else if (dj === 0) status = 'missing';
+    else if (groupKey(targetWords) !== groupKey(inputWords)) status = 'wrong';
+    else if (targetWords.join(' ').toLowerCase() === inputWords.join(' ').toLowerCase()) status = 'exact';
+    else status = 'variant';
+    matches.push({ status, target: targetWords, input: inputWords });
+    i -= di;
+    j -= dj;
+  }
+  matches.reverse();
+
+  target.slice(end).forEach(word => {
+    matches.push({ status: partial ? 'pending' : 'missing', target: [word], input: [] });
+  });
+
+  return matches;
+};
@@ -0,0 +1,70 @@
+import type { Script } from '@/lib/scripts';
+import type { TypingMetrics } from '@/lib/typing-metrics';
+
+export interface RepetitionRecord {
+  timestamp: string;
+  mantraId: string;
+  script: Script;
+  // Typed repetitions are checked; count-only japa taps are not
+  source: 'typed' | 'count';
+  accuracy?: number;
+  metrics?: TypingMetrics;
+}
+
+export interface SessionRecord {
+  startedAt: string;
+  completedAt: string;
+  mantraId: string;
+  script: Script;
+  repetitions: number;
+  points: number;
+  // Share of submissions accepted on the first try, in percent
+  accuracy?: number;
+  // Average typing speed over the session's repetitions
+  charactersPerMinute?: number;
+  wordsPerMinute?: number;
+}
+
+export interface PracticeHistory {
+  repetitions: RepetitionRecord[];
+  sessions: SessionRecord[];
+}
+
+export const EMPTY_HISTORY: PracticeHistory = { repetitions: [], sessions: [] };
+
+export const logRepetition = (
+  history: PracticeHistory,
+  record: Omit<RepetitionRecord, 'timestamp'>,
+  now = new Date()
+): PracticeHistory => ({
+  ...history,
+  repetitions: [...history.repetitions, { ...record, timestamp: now.toISOString() }],
+});
+
+export const logSession = (
+  history: PracticeHistory,
+  record: Omit<SessionRecord, 'completedAt'>,
+  now = new Date()
+): PracticeHistory => ({
+  ...history,
+  sessions: [...history.sessions, { ...record, completedAt: now.toISOString() }],
+});
+
+// Records in `next` that were appended after `previous`
+export const recordsSince = (previous: PracticeHistory, next: PracticeHistory): PracticeHistory => ({
+  repetitions: next.repetitions.slice(previous.repetitions.length),
+  sessions: next.sessions.slice(previous.sessions.length),
+});
+
+// Combine two histories, keeping one copy of each record in time order.
+// Repetitions are identified by their timestamp and sessions by their end time.
+export const mergeHistory = (a: PracticeHistory, b: PracticeHistory): PracticeHistory => {
+  const unique = <T>(records: T[], key: (record: T) => string) =>
+    [...new Map(records.map(record => [key(record), record])).values()]
+      .sort((x, y) => key(x).localeCompare(key(y)));
+
+  return {
+    repetitions: unique([...a.repetitions, ...b.repetitions], record => record.timestamp),
+    sessions: unique([...a.sessions, ...b.sessions], record => record.completedAt),
+  };
+};
@@ -0,0 +1,95 @@
+// Open-ended levels earned with points. Each level needs `growth` times the
+// points of the one before, starting from `base` points for level 2.
+export interface LevelCurve {
+  id: string;
+  label: string;
+  base: number;
+  growth: number;
+}
+
+export const LEVEL_CURVES: LevelCurve[] = [
+  { id: 'gentle', label: 'Gentle', base: 50, growth: 1.15 },
+  { id: 'classic', label: 'Classic', base: 100, growth: 1.25 },
+  { id: 'steep', label: 'Steep', base: 150, growth: 1.4 },
+];
+
+export const DEFAULT_LEVEL_CURVE_ID = 'classic';
+
+export const getLevelCurve = (id: string): LevelCurve =>
+  LEVEL_CURVES.find(curve => curve.id === id) ?? LEVEL_CURVES.find(curve => curve.id === DEFAULT_LEVEL_CURVE_ID);
+
+// Stages of the path from seeker to seer
+const LEVEL_NAMES: Array<[name: string, meaning: string]> = [
+  ['Jijnasu', 'Seeker'],
+  ['Sadhaka', 'Practitioner'],
+  ['Abhyasi', 'Diligent student'],
+  ['Shishya', 'Disciple'],
+  ['Brahmachari', 'Student of the Vedas'],
+  ['Upasaka', 'Worshipper'],
+  ['Bhakta', 'Devotee'],
+  ['Tapasvi', 'Ascetic'],
+  ['Yogi', 'United one'],
+  ['Jnani', 'Knower'],
+  ['Muni', 'Silent sage'],
+  ['Rishi', 'Seer'],
+  ['Maharishi', 'Great seer'],
+  ['Brahmarishi', 'Seer of Brahman'],
+];
+
+const ROMAN_NUMERALS: Array<[number, string]> = [
+  [1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'],
+  [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I'],
+];
+
+const toRoman = (value: number) => {
+  let rest = value;
+  return ROMAN_NUMERALS.reduce((numeral, [amount, symbol]) => {
+    const times = Math.floor(rest / amount);
+    rest -= times * amount;
+    return numeral + symbol.repeat(times);
+  }, '');
+};
+
+// Levels past the last name repeat it with a numeral: Brahmarishi II, III, …
+export const levelName = (level: number): { name: string; meaning: string } => {
+  const last = LEVEL_NAMES.length;
+  if (level <= last) {
+    const [name, meaning] = LEVEL_NAMES[level - 1];
+    return { name, meaning };
+  }
+  const [name, meaning] = LEVEL_NAMES[last - 1];
+  return { name: `${name} ${toRoman(level - last + 1)}`, meaning };
+};
+
+// Points needed to go from `level` to the next, rounded to a multiple of 10
+const levelCost = (level: number, curve: LevelCurve) =>
+  Math.round((curve.base * curve.growth ** (level - 1)) / 10) * 10;
+
+export interface LevelInfo {
+  level: number;
+  name: string;
+  meaning: string;
+  levelPoints: number;
+  nextLevelPoints: number;
+  // 0–1 share of the way to the next level
+  progress: number;
+}
+
+export const getLevel = (totalPoints: number, curve: LevelCurve): LevelInfo => {
+  let level = 1;
+  let levelPoints = 0;
+  let nextLevelPoints = levelCost(1, curve);
+  while (totalPoints >= nextLevelPoints) {
+    level++;
+    levelPoints = nextLevelPoints;
+    nextLevelPoints += levelCost(level, curve);
+  }
+
+  return {
+    level,
+    ...levelName(level),
+    levelPoints,
+    nextLevelPoints,
+    progress: (totalPoints - levelPoints) / (nextLevelPoints - levelPoints),
+  };
+};
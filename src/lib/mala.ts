@@ -0,0 +1,45 @@
+// A full mala is always 108 japa, whatever the size of the physical bead string
+export const JAPA_PER_MALA = 108;
+
+// Common bead strings: full mala, half mala and wrist mala
+export const MALA_SIZES = [108, 54, 27];
+
+export interface MalaProgress {
+  // Beads moved since the last turn at the sumeru
+  bead: number;
+  completedMalas: number;
+  // Times the sumeru (guru bead) was reached and the mala turned around
+  sumeruCrossings: number;
+  totalCount: number;
+}
+
+export const DEFAULT_MALA_PROGRESS: MalaProgress = {
+  bead: 0,
+  completedMalas: 0,
+  sumeruCrossings: 0,
+  totalCount: 0,
+};
+
+export interface MalaAdvance {
+  mala: MalaProgress;
+  reachedSumeru: boolean;
+  completedMala: boolean;
+}
+
+// Move one bead along a string of `size` beads
+export const advanceMala = (mala: MalaProgress, size: number): MalaAdvance => {
+  const totalCount = mala.totalCount + 1;
+  const reachedSumeru = mala.bead + 1 >= size;
+  const completedMala = totalCount % JAPA_PER_MALA === 0;
+
+  return {
+    mala: {
+      bead: reachedSumeru ? 0 : mala.bead + 1,
+      completedMalas: mala.completedMalas + (completedMala ? 1 : 0),
+      sumeruCrossings: mala.sumeruCrossings + (reachedSumeru ? 1 : 0),
+      totalCount,
+    },
+    reachedSumeru,
+    completedMala,
+  };
+};
@@ -0,0 +1,126 @@
+import type { Script } from '@/lib/scripts';
+import { devanagariToRoman } from '@/lib/transliteration';
+
+// Seconds into the recording at which a word is chanted
+export interface WordTiming {
+  // Index into Mantra.words, so the same map serves every script
+  word: number;
+  start: number;
+  end: number;
+}
+
+export interface MantraAudio {
+  src: string;
+  title: string;
+  credit: string;
+  // Word timings of the first recitation in the recording
+  timings?: WordTiming[];
+  // Length of one recitation when the recording chants the mantra over and over
+  repeatEvery?: number;
+}
+
+export interface Mantra {
+  id: string;
+  title: string;
+  description: string;
+  // Devanagari source, segmented into words; Roman scripts are derived from it
+  words: string[];
+  // Word ranges [start, end) of the lines it is recited in
+  phrases?: Array<[number, number]>;
+  audio?: MantraAudio;
+}
+
+export interface MantraPhrase {
+  start: number;
+  end: number;
+  words: string[];
+}
+
+// Mantra catalog
+export const MANTRAS: Mantra[] = [
+  {
+    id: 'gayatri',
+    title: 'Gayatri Mantra',
+    description: 'Rig Veda 3.62.10 – prayer to Savitr for illumination of the intellect',
+    words: ['ॐ', 'भूर्भुवः', 'स्वः', 'तत्सवितुर्वरेण्यम्', 'भर्गो', 'देवस्य', 'धीमहि', 'धियो', 'यो', 'नः', 'प्रचोदयात्'],
+    phrases: [[0, 3], [3, 4], [4, 7], [7, 11]],
+    audio: {
+      src: '/Gayatri Mantra _ Param Pujya Gurudev voice 24 24000 Times Powerful _ Acharya Shriram Sharma.mp3',
+      title: 'Gayatri Mantra Chant',
+      credit: 'Param Pujya Gurudev voice - Acharya Shriram Sharma',
+      // Approximate, timed by ear against the recording
+      timings: [
+        { word: 0, start: 0.4, end: 1.6 },
+        { word: 1, start: 1.8, end: 3.2 },
+        { word: 2, start: 3.2, end: 4.3 },
+        { word: 3, start: 4.6, end: 7.4 },
+        { word: 4, start: 7.6, end: 8.5 },
+        { word: 5, start: 8.5, end: 9.6 },
+        { word: 6, start: 9.6, end: 10.9 },
+        { word: 7, start: 11.2, end: 12.0 },
+        { word: 8, start: 12.0, end: 12.5 },
+        { word: 9, start: 12.5, end: 13.1 },
+        { word: 10, start: 13.1, end: 14.8 },
+      ],
+      repeatEvery: 15.2,
+    },
+  },
+  {
+    id: 'mahamrityunjaya',
+    title: 'Mahamrityunjaya Mantra',
+    description: 'Rig Veda 7.59.12 – the great death-conquering mantra to Tryambaka',
+    words: ['ॐ', 'त्र्यम्बकं', 'यजामहे', 'सुगन्धिं', 'पुष्टिवर्धनम्', 'उर्वारुकमिव', 'बन्धनान्', 'मृत्योर्मुक्षीय', 'माऽमृतात्'],
+    phrases: [[0, 3], [3, 5], [5, 7], [7, 9]],
+  },
+  {
+    id: 'om-namah-shivaya',
+    title: 'Om Namah Shivaya',
+    description: 'Panchakshari japa mantra of Lord Shiva',
+    words: ['ॐ', 'नमः', 'शिवाय'],
+  },
+  {
+    id: 'asato-ma',
+    title: 'Asato Ma Sadgamaya',
+    description: 'Brihadaranyaka Upanishad 1.3.28 – Pavamana mantra',
+    words: ['ॐ', 'असतो', 'मा', 'सद्गमय', 'तमसो', 'मा', 'ज्योतिर्गमय', 'मृत्योर्मा', 'अमृतं', 'गमय', 'ॐ', 'शान्तिः', 'शान्तिः', 'शान्तिः'],
+    phrases: [[0, 4], [4, 7], [7, 10], [10, 14]],
+  },
+  {
+    id: 'saha-navavatu',
+    title: 'Saha Navavatu',
+    description: 'Katha & Taittiriya Upanishad – shanti path recited before study',
+    words: ['ॐ', 'सह', 'नाववतु', 'सह', 'नौ', 'भुनक्तु', 'सह', 'वीर्यं', 'करवावहै', 'तेजस्वि', 'नावधीतमस्तु', 'मा', 'विद्विषावहै', 'ॐ', 'शान्तिः', 'शान्तिः', 'शान्तिः'],
+    phrases: [[0, 3], [3, 6], [6, 9], [9, 11], [11, 13], [13, 17]],
+  },
+];
+
+export const DEFAULT_MANTRA_ID = 'gayatri';
+
+export const getMantra = (id: string): Mantra =>
+  MANTRAS.find(mantra => mantra.id === id) ?? MANTRAS[0];
+
+const derivedWords = new Map<string, string[]>();
+
+// Words of a mantra in the given script (cached, so the array identity is stable)
+export const getMantraWords = (mantra: Mantra, script: Script): string[] => {
+  if (script === 'hindi') return mantra.words;
+
+  const key = `${mantra.id}:${script}`;
+  if (!derivedWords.has(key)) {
+    derivedWords.set(key, mantra.words.map(word => devanagariToRoman(word, script)));
+  }
+  return derivedWords.get(key);
+};
+
+export const getMantraText = (mantra: Mantra, script: Script): string =>
+  getMantraWords(mantra, script).join(' ');
+
+// Lines of a mantra in the given script; a mantra without phrases is one line
+export const getMantraPhrases = (mantra: Mantra, script: Script): MantraPhrase[] => {
+  const words = getMantraWords(mantra, script);
+  return (mantra.phrases ?? [[0, words.length]]).map(([start, end]) => ({
+    start,
+    end,
+    words: words.slice(start, end),
+  }));
+};
@@ -0,0 +1,67 @@
+// Repeat modes of the chant player
+
+export interface Segment {
+  start: number;
+  end: number;
+}
+
+// The whole recording, an A-B section, or each phrase a number of times in turn
+export type RepeatMode = 'track' | 'ab' | 'phrases';
+
+export const REPEAT_MODES: Array<{ id: RepeatMode; label: string }> = [
+  { id: 'track', label: 'Whole chant' },
+  { id: 'ab', label: 'A-B loop' },
+  { id: 'phrases', label: 'Phrase by phrase' },
+];
+
+export interface PlaybackPlan {
+  mode: RepeatMode;
+  ab: Segment | null;
+  phrases: Segment[];
+  // Times each phrase is played before moving on
+  phraseRepeats: number;
+  // Plays before stopping automatically, null to keep going
+  totalPlays: number | null;
+}
+
+export interface PlaybackCursor {
+  // Completed plays of the track, the A-B section or all phrases
+  plays: number;
+  phrase: number;
+  // Times the current phrase has been played
+  phraseRepeat: number;
+}
+
+export const START_CURSOR: PlaybackCursor = { plays: 0, phrase: 0, phraseRepeat: 0 };
+
+// Section being played; the whole recording when the plan has nothing narrower
+export const currentSegment = (plan: PlaybackPlan, cursor: PlaybackCursor, duration: number): Segment => {
+  if (plan.mode === 'ab' && plan.ab) return plan.ab;
+  if (plan.mode === 'phrases' && plan.phrases.length > 0) return plan.phrases[cursor.phrase % plan.phrases.length];
+  return { start: 0, end: duration };
+};
+
+// Move on once playback reaches the end of the current section
+export const advanceCursor = (plan: PlaybackPlan, cursor: PlaybackCursor): { cursor: PlaybackCursor; stop: boolean } => {
+  let next: PlaybackCursor;
+  if (plan.mode === 'phrases' && plan.phrases.length > 0) {
+    if (cursor.phraseRepeat + 1 < plan.phraseRepeats) {
+      next = { ...cursor, phraseRepeat: cursor.phraseRepeat + 1 };
+    } else if (cursor.phrase + 1 < plan.phrases.length) {
+      next = { ...cursor, phrase: cursor.phrase + 1, phraseRepeat: 0 };
+    } else {
+      next = { plays: cursor.plays + 1, phrase: 0, phraseRepeat: 0 };
+    }
+  } else {
+    next = { ...cursor, plays: cursor.plays + 1 };
+  }
+
+  const stop = plan.totalPlays !== null && next.plays >= plan.totalPlays && next.plays > cursor.plays;
+  return { cursor: next, stop };
+};
+
+// m:ss, e.g. 75.4 → "1:15"
+export const formatTime = (seconds: number): string => {
+  const whole = Number.isFinite(seconds) ? Math.max(0, Math.floor(seconds)) : 0;
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
@@ -0,0 +1,29 @@
+import { format, parseISO } from 'date-fns';
+import type { PracticeHistory } from '@/lib/history';
+import { localDayKey } from '@/lib/streaks';
+
+export interface SessionTrendPoint {
+  label: string;
+  accuracy?: number;
+  speed?: number;
+}
+
+// Repetitions per local calendar day, keyed by "yyyy-MM-dd"
+export const dailyRepetitionCounts = (history: PracticeHistory): Map<string, number> => {
+  const counts = new Map<string, number>();
+  history.repetitions.forEach(record => {
+    const key = localDayKey(parseISO(record.timestamp));
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  return counts;
+};
+
+// Accuracy and typing speed of every completed session, oldest first
+export const sessionTrend = (history: PracticeHistory): SessionTrendPoint[] =>
+  [...history.sessions]
+    .sort((a, b) => a.completedAt.localeCompare(b.completedAt))
+    .map(session => ({
+      label: format(parseISO(session.completedAt), 'd MMM'),
+      accuracy: session.accuracy,
+      speed: session.charactersPerMinute,
+    }));
@@ -0,0 +1,238 @@
+import type { PracticeHistory, RepetitionRecord, SessionRecord } from '@/lib/history';
+import { clearLegacyRecords, loadLegacyRecords, loadProgress } from '@/lib/progress';
+import { getActiveProfileId, profileStorageKey } from '@/lib/profiles';
+
+export interface AchievementRecord {
+  id: string;
+  // Unknown for achievements unlocked before unlock times were recorded
+  unlockedAt?: string;
+}
+
+export interface PracticeRecords {
+  repetitions: RepetitionRecord[];
+  sessions: SessionRecord[];
+  achievements: AchievementRecord[];
+}
+
+export interface DateRange {
+  from?: Date;
+  to?: Date;
+}
+
+// Repository for the full practice history. Records are keyed by time, so
+// adding the same record twice keeps a single copy.
+export interface PracticeStore {
+  addRepetitions: (records: RepetitionRecord[]) => Promise<void>;
+  addSessions: (records: SessionRecord[]) => Promise<void>;
+  // Already unlocked achievements keep their original unlock time
+  unlockAchievements: (records: AchievementRecord[]) => Promise<void>;
+  getRepetitions: (range?: DateRange) => Promise<RepetitionRecord[]>;
+  getSessions: (range?: DateRange) => Promise<SessionRecord[]>;
+  getAchievements: () => Promise<AchievementRecord[]>;
+  clear: () => Promise<void>;
+  // Swap every stored record for the given ones at once; if any write fails
+  // the old records stay
+  replaceAll: (records: PracticeRecords) => Promise<void>;
+  close: () => void;
+}
+
+const DB_NAME = 'mantra-practice';
+const DB_VERSION = 1;
+const REPETITIONS = 'repetitions';
+const SESSIONS = 'sessions';
+const ACHIEVEMENTS = 'achievements';
+
+const inRange = (time: string, range: DateRange = {}) =>
+  (!range.from || time >= range.from.toISOString()) && (!range.to || time <= range.to.toISOString());
+
+// ISO timestamps sort in time order, so a date range is a key range
+const toKeyRange = ({ from, to }: DateRange = {}) => {
+  if (from && to) return IDBKeyRange.bound(from.toISOString(), to.toISOString());
+  if (from) return IDBKeyRange.lowerBound(from.toISOString());
+  if (to) return IDBKeyRange.upperBound(to.toISOString());
+  return undefined;
+};
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Each profile has its own database
+const openDatabase = (name: string) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(REPETITIONS, { keyPath: 'timestamp' });
+      db.createObjectStore(SESSIONS, { keyPath: 'completedAt' });
+      db.createObjectStore(ACHIEVEMENTS, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Practice database is blocked by another tab'));
+  });
+
+const createIndexedDbStore = (db: IDBDatabase): PracticeStore => {
+  const putAll = <T>(storeName: string, records: T[]) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    records.forEach(record => store.put(record));
+    return transactionDone(transaction);
+  };
+
+  const getAll = <T>(storeName: string, range?: DateRange) =>
+    requestResult<T[]>(db.transaction(storeName).objectStore(storeName).getAll(toKeyRange(range)));
+
+  return {
+    addRepetitions: records => putAll(REPETITIONS, records),
+    addSessions: records => putAll(SESSIONS, records),
+    unlockAchievements: records => {
+      const transaction = db.transaction(ACHIEVEMENTS, 'readwrite');
+      const store = transaction.objectStore(ACHIEVEMENTS);
+      records.forEach(record => {
+        const existing = store.get(record.id);
+        existing.onsuccess = () => {
+          if (!existing.result) store.put(record);
+        };
+      });
+      return transactionDone(transaction);
+    },
+    getRepetitions: range => getAll<RepetitionRecord>(REPETITIONS, range),
+    getSessions: range => getAll<SessionRecord>(SESSIONS, range),
+    getAchievements: () => getAll<AchievementRecord>(ACHIEVEMENTS),
+    clear: () => {
+      const storeNames = [REPETITIONS, SESSIONS, ACHIEVEMENTS];
+      const transaction = db.transaction(storeNames, 'readwrite');
+      storeNames.forEach(storeName => transaction.objectStore(storeName).clear());
+      return transactionDone(transaction);
+    },
+    replaceAll: ({ repetitions, sessions, achievements }) => {
+      const contents: Array<[string, unknown[]]> = [
+        [REPETITIONS, repetitions],
+        [SESSIONS, sessions],
+        [ACHIEVEMENTS, achievements],
+      ];
+      const transaction = db.transaction(contents.map(([storeName]) => storeName), 'readwrite');
+      contents.forEach(([storeName, records]) => {
+        const store = transaction.objectStore(storeName);
+        store.clear();
+        records.forEach(record => store.put(record));
+      });
+      return transactionDone(transaction);
+    },
+    close: () => db.close(),
+  };
+};
+
+// Used when IndexedDB is unavailable (e.g. some private browsing modes);
+// the history then only lasts until the page is closed
+export const createMemoryStore = (): PracticeStore => {
+  const repetitions = new Map<string, RepetitionRecord>();
+  const sessions = new Map<string, SessionRecord>();
+  const achievements = new Map<string, AchievementRecord>();
+
+  const sorted = <T>(records: Map<string, T>, range?: DateRange) =>
+    [...records.entries()]
+      .filter(([time]) => inRange(time, range))
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([, record]) => record);
+
+  return {
+    addRepetitions: async records => {
+      records.forEach(record => repetitions.set(record.timestamp, record));
+    },
+    addSessions: async records => {
+      records.forEach(record => sessions.set(record.completedAt, record));
+    },
+    unlockAchievements: async records => {
+      records.forEach(record => {
+        if (!achievements.has(record.id)) achievements.set(record.id, record);
+      });
+    },
+    getRepetitions: async range => sorted(repetitions, range),
+    getSessions: async range => sorted(sessions, range),
+    getAchievements: async () => [...achievements.values()],
+    clear: async () => {
+      repetitions.clear();
+      sessions.clear();
+      achievements.clear();
+    },
+    replaceAll: async records => {
+      repetitions.clear();
+      sessions.clear();
+      achievements.clear();
+      records.repetitions.forEach(record => repetitions.set(record.timestamp, record));
+      records.sessions.forEach(record => sessions.set(record.completedAt, record));
+      records.achievements.forEach(record => achievements.set(record.id, record));
+    },
+    close: () => {},
+  };
+};
+
+// Bring history and achievements saved by older versions into the store.
+// The old copy is only removed once a lasting store holds the records.
+const importLegacyRecords = async (store: PracticeStore, profileId: string, persistent: boolean) => {
+  // Reading progress moves any old-format records aside for import
+  loadProgress(profileId);
+  const legacy = loadLegacyRecords(profileId);
+  if (!legacy) return;
+
+  await store.addRepetitions(legacy.history.repetitions);
+  await store.addSessions(legacy.history.sessions);
+  await store.unlockAchievements(legacy.achievements.map(id => ({ id })));
+  if (persistent) clearLegacyRecords(profileId);
+};
+
+const openStore = async (profileId: string): Promise<PracticeStore> => {
+  let store: PracticeStore;
+  let persistent = true;
+  try {
+    store = createIndexedDbStore(await openDatabase(profileStorageKey(DB_NAME, profileId)));
+  } catch (error) {
+    console.warn('IndexedDB unavailable, practice history will not be saved:', error);
+    store = createMemoryStore();
+    persistent = false;
+  }
+
+  try {
+    await importLegacyRecords(store, profileId, persistent);
+  } catch (error) {
+    console.error('Could not import saved practice history:', error);
+  }
+  return store;
+};
+
+const openStores = new Map<string, Promise<PracticeStore>>();
+
+export const getPracticeStore = (profileId = getActiveProfileId()) => {
+  if (!openStores.has(profileId)) openStores.set(profileId, openStore(profileId));
+  return openStores.get(profileId);
+};
+
+export const loadPracticeHistory = async (range?: DateRange): Promise<PracticeHistory> => {
+  const store = await getPracticeStore();
+  const [repetitions, sessions] = await Promise.all([store.getRepetitions(range), store.getSessions(range)]);
+  return { repetitions, sessions };
+};
+
+export const deletePracticeStore = async (profileId: string) => {
+  const open = openStores.get(profileId);
+  if (open) {
+    (await open).close();
+    openStores.delete(profileId);
+  }
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(profileStorageKey(DB_NAME, profileId));
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
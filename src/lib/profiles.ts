@@ -0,0 +1,98 @@
+import { z } from 'zod';
+
+export interface Profile {
+  id: string;
+  name: string;
+  // Emoji shown in the profile avatar
+  avatar: string;
+  // SHA-256 of the profile's PIN, when it is protected
+  pinHash?: string;
+}
+
+export interface ProfileState {
+  activeId: string;
+  profiles: Profile[];
+}
+
+export const PROFILE_AVATARS = ['🪷', '🕉️', '🔱', '🪔', '🐚', '📿', '🌞', '🌙', '🦚', '🐘', '🌸', '⭐'];
+
+export const PIN_LENGTH = 4;
+
+// The first profile keeps the storage keys used before profiles existed,
+// so practice saved until then becomes its progress
+export const DEFAULT_PROFILE_ID = 'default';
+
+const DEFAULT_STATE: ProfileState = {
+  activeId: DEFAULT_PROFILE_ID,
+  profiles: [{ id: DEFAULT_PROFILE_ID, name: 'Sadhak', avatar: PROFILE_AVATARS[0] }],
+};
+
+export const PROFILES_STORAGE_KEY = 'mantra-profiles';
+export const PROFILES_CHANGE_EVENT = 'mantra-profiles-change';
+
+const profileStateSchema = z.object({
+  activeId: z.string(),
+  profiles: z.array(z.object({
+    id: z.string(),
+    name: z.string().min(1),
+    avatar: z.string().min(1),
+    pinHash: z.string().optional(),
+  })).min(1),
+});
+
+export const parseProfiles = (saved: string | null): ProfileState => {
+  try {
+    const state = saved ? profileStateSchema.parse(JSON.parse(saved)) as ProfileState : DEFAULT_STATE;
+    // Fall back to the first profile if the active one no longer exists
+    return state.profiles.some(profile => profile.id === state.activeId)
+      ? state
+      : { ...state, activeId: state.profiles[0].id };
+  } catch {
+    return DEFAULT_STATE;
+  }
+};
+
+export const loadProfiles = () => parseProfiles(localStorage.getItem(PROFILES_STORAGE_KEY));
+
+export const saveProfiles = (state: ProfileState) => {
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(state));
+  window.dispatchEvent(new Event(PROFILES_CHANGE_EVENT));
+};
+
+export const getActiveProfileId = () => loadProfiles().activeId;
+
+// Storage key holding `base` data for a profile
+export const profileStorageKey = (base: string, profileId = getActiveProfileId()) =>
+  profileId === DEFAULT_PROFILE_ID ? base : `${base}:${profileId}`;
+
+export const createProfileId = () => crypto.randomUUID();
+
+// New profiles become the active one
+export const addProfile = (state: ProfileState, profile: Profile): ProfileState => ({
+  activeId: profile.id,
+  profiles: [...state.profiles, profile],
+});
+
+export const switchProfile = (state: ProfileState, id: string): ProfileState => ({ ...state, activeId: id });
+
+export const updateProfile = (state: ProfileState, id: string, changes: Partial<Omit<Profile, 'id'>>): ProfileState => ({
+  ...state,
+  profiles: state.profiles.map(profile => (profile.id === id ? { ...profile, ...changes } : profile)),
+});
+
+// The last profile cannot be removed
+export const removeProfile = (state: ProfileState, id: string): ProfileState => {
+  const profiles = state.profiles.filter(profile => profile.id !== id);
+  if (profiles.length === 0) return state;
+  return { activeId: state.activeId === id ? profiles[0].id : state.activeId, profiles };
+};
+
+// A PIN keeps family members out of each other's progress; it is not meant
+// to protect against someone with access to the browser's storage
+export const hashPin = async (profileId: string, pin: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${profileId}:${pin}`));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const verifyPin = async (profile: Profile, pin: string) =>
+  !profile.pinHash || profile.pinHash === await hashPin(profile.id, pin);
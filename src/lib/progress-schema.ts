@@ -0,0 +1,103 @@
+import { z } from 'zod';
+import { DEFAULT_MALA_PROGRESS } from '@/lib/mala';
+
+// Keeps the valid entries of an array and silently drops corrupted ones
+const listOf = <T extends z.ZodTypeAny>(item: T) =>
+  z.array(z.unknown()).catch([]).transform(entries =>
+    entries.flatMap(entry => {
+      const parsed = item.safeParse(entry);
+      return parsed.success ? [parsed.data as z.infer<T>] : [];
+    })
+  );
+
+const count = z.number().int().nonnegative();
+
+export const scriptSchema = z.enum(['hindi', 'iast', 'itrans', 'hinglish']);
+
+export const typingMetricsSchema = z.object({
+  durationMs: z.number().nonnegative(),
+  wordsPerMinute: z.number().nonnegative(),
+  aksharasPerMinute: z.number().nonnegative(),
+  backspaces: count,
+  hesitations: listOf(z.object({ word: z.string(), pauseMs: z.number() })),
+});
+
+export const repetitionRecordSchema = z.object({
+  timestamp: z.string().datetime(),
+  mantraId: z.string(),
+  script: scriptSchema,
+  source: z.enum(['typed', 'count']),
+  accuracy: z.number().min(0).max(100).optional(),
+  metrics: typingMetricsSchema.optional(),
+});
+
+export const sessionRecordSchema = z.object({
+  startedAt: z.string().datetime(),
+  completedAt: z.string().datetime(),
+  mantraId: z.string(),
+  script: scriptSchema,
+  repetitions: count,
+  points: count,
+  accuracy: z.number().min(0).max(100).optional(),
+  charactersPerMinute: z.number().nonnegative().optional(),
+  wordsPerMinute: z.number().nonnegative().optional(),
+});
+
+export const malaProgressSchema = z.object({
+  bead: count.catch(DEFAULT_MALA_PROGRESS.bead),
+  completedMalas: count.catch(DEFAULT_MALA_PROGRESS.completedMalas),
+  sumeruCrossings: count.catch(DEFAULT_MALA_PROGRESS.sumeruCrossings),
+  totalCount: count.catch(DEFAULT_MALA_PROGRESS.totalCount),
+});
+
+export const practiceHistorySchema = z.object({
+  repetitions: listOf(repetitionRecordSchema),
+  sessions: listOf(sessionRecordSchema),
+});
+
+const wordRecallSchema = z.object({
+  box: count,
+  due: count,
+  recalled: count,
+  missed: count,
+  lapses: count,
+});
+
+export const mantraRecallSchema = z.object({
+  round: count,
+  words: z.array(wordRecallSchema),
+});
+
+// Every field falls back to its default on its own, so one bad value never
+// discards the rest of the user's progress
+export const progressTotalsSchema = z.object({
+  totalPoints: count.catch(0),
+  completedSessions: count.catch(0),
+  mala: malaProgressSchema.catch(DEFAULT_MALA_PROGRESS),
+  recall: z.record(mantraRecallSchema.catch({ round: 0, words: [] })).catch({}),
+});
+
+// Totals in an imported backup: an invalid value rejects the file instead
+// of falling back to a default. Backups made before memorisation have no recall.
+export const strictProgressTotalsSchema = z.object({
+  totalPoints: count,
+  completedSessions: count,
+  mala: z.object({
+    bead: count,
+    completedMalas: count,
+    sumeruCrossings: count,
+    totalCount: count,
+  }),
+  recall: z.record(mantraRecallSchema).default({}),
+});
+
+// Up to version 2 the history and achievements were stored with the totals
+export const legacyProgressSchema = progressTotalsSchema.extend({
+  achievements: listOf(z.string()),
+  history: practiceHistorySchema.catch({ repetitions: [], sessions: [] }),
+});
+
+export const achievementRecordSchema = z.object({
+  id: z.string(),
+  unlockedAt: z.string().datetime().optional(),
+});
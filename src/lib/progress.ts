@@ -0,0 +1,141 @@
+import { DEFAULT_MALA_PROGRESS, type MalaProgress } from '@/lib/mala';
+import { EMPTY_HISTORY, type PracticeHistory } from '@/lib/history';
+import type { RecallProgress } from '@/lib/recall';
+import { legacyProgressSchema, progressTotalsSchema } from '@/lib/progress-schema';
+import { getActiveProfileId, profileStorageKey } from '@/lib/profiles';
+
+export interface UserProgress {
+  totalPoints: number;
+  achievements: string[];
+  completedSessions: number;
+  mala: MalaProgress;
+  // Per-word recall in memorisation mode
+  recall: RecallProgress;
+  history: PracticeHistory;
+}
+
+// The part of UserProgress kept in localStorage. History and achievements
+// live in the practice store.
+export type ProgressTotals = Pick<UserProgress, 'totalPoints' | 'completedSessions' | 'mala' | 'recall'>;
+
+// History and achievements from before the practice store, waiting to be imported
+export type LegacyRecords = Pick<UserProgress, 'achievements' | 'history'>;
+
+export const DEFAULT_PROGRESS: UserProgress = {
+  totalPoints: 0,
+  achievements: [],
+  completedSessions: 0,
+  mala: DEFAULT_MALA_PROGRESS,
+  recall: {},
+  history: EMPTY_HISTORY,
+};
+
+export const PROGRESS_STORAGE_KEY = 'mantra-progress';
+// Storage keys are per profile, see profileStorageKey.
+// Raw copy of stored progress kept before a migration or after a failed read
+export const PROGRESS_BACKUP_KEY = 'mantra-progress-backup';
+export const LEGACY_RECORDS_KEY = 'mantra-progress-legacy-records';
+
+// Stored format: { version, progress }. Bump the version and add a
+// migration from the previous one whenever the stored shape changes.
+export const PROGRESS_VERSION = 4;
+
+interface StoredProgress {
+  version: number;
+  progress: unknown;
+}
+
+const MIGRATIONS: Record<number, (stored: StoredProgress) => StoredProgress> = {
+  // v1 was the bare UserProgress object without a version wrapper
+  1: (stored) => ({ version: 2, progress: stored.progress }),
+  // v3 moved history and achievements out to the practice store
+  2: (stored) => ({ version: 3, progress: progressTotalsSchema.parse(stored.progress) }),
+  // v4 added per-word recall
+  3: (stored) => ({ version: 4, progress: { ...(stored.progress as object), recall: {} } }),
+};
+
+const readEnvelope = (raw: unknown): StoredProgress => {
+  if (raw && typeof raw === 'object' && 'version' in raw && typeof raw.version === 'number') {
+    return { version: raw.version, progress: (raw as { progress?: unknown }).progress };
+  }
+  return { version: 1, progress: raw };
+};
+
+const migrate = (stored: StoredProgress, version = PROGRESS_VERSION): StoredProgress => {
+  let current = stored;
+  while (current.version < version) {
+    const step = MIGRATIONS[current.version];
+    if (!step) throw new Error(`No progress migration from version ${current.version}`);
+    current = step(current);
+  }
+  return current;
+};
+
+// Parse stored progress of any known version. Invalid fields fall back to
+// their defaults and corrupted history entries are dropped.
+export const parseStoredProgress = (raw: string): { totals: ProgressTotals; legacy: LegacyRecords | null } => {
+  const envelope = readEnvelope(JSON.parse(raw));
+  if (envelope.version > PROGRESS_VERSION) {
+    throw new Error(`Progress was saved by a newer version (${envelope.version})`);
+  }
+
+  // Without strictNullChecks zod infers every field as optional, but the
+  // field-level defaults guarantee complete objects
+  const legacy = envelope.version <= 2
+    ? legacyProgressSchema.catch(DEFAULT_PROGRESS).parse(migrate(envelope, 2).progress) as LegacyRecords
+    : null;
+  const totals = progressTotalsSchema.catch(DEFAULT_PROGRESS).parse(migrate(envelope).progress) as ProgressTotals;
+  return { totals, legacy: legacy && { achievements: legacy.achievements, history: legacy.history } };
+};
+
+export const saveProgress = (progress: ProgressTotals, profileId = getActiveProfileId()) => {
+  const { totalPoints, completedSessions, mala, recall } = progress;
+  const stored: StoredProgress = { version: PROGRESS_VERSION, progress: { totalPoints, completedSessions, mala, recall } };
+  localStorage.setItem(profileStorageKey(PROGRESS_STORAGE_KEY, profileId), JSON.stringify(stored));
+};
+
+// Load the stored totals. History and achievements start empty and are
+// filled in from the practice store.
+export const loadProgress = (profileId = getActiveProfileId()): UserProgress => {
+  const raw = localStorage.getItem(profileStorageKey(PROGRESS_STORAGE_KEY, profileId));
+  if (!raw) return DEFAULT_PROGRESS;
+
+  try {
+    const { totals, legacy } = parseStoredProgress(raw);
+    if (legacy) {
+      // Keep the old records until the practice store has imported them,
+      // then rewrite progress in the current format
+      localStorage.setItem(profileStorageKey(PROGRESS_BACKUP_KEY, profileId), raw);
+      localStorage.setItem(profileStorageKey(LEGACY_RECORDS_KEY, profileId), JSON.stringify(legacy));
+      saveProgress(totals, profileId);
+    }
+    return { ...DEFAULT_PROGRESS, ...totals };
+  } catch (error) {
+    console.error('Could not read saved progress, starting fresh:', error);
+    localStorage.setItem(profileStorageKey(PROGRESS_BACKUP_KEY, profileId), raw);
+    return DEFAULT_PROGRESS;
+  }
+};
+
+export const loadLegacyRecords = (profileId = getActiveProfileId()): LegacyRecords | null => {
+  const raw = localStorage.getItem(profileStorageKey(LEGACY_RECORDS_KEY, profileId));
+  if (!raw) return null;
+
+  try {
+    const records = legacyProgressSchema.pick({ achievements: true, history: true }).parse(JSON.parse(raw));
+    return records as LegacyRecords;
+  } catch (error) {
+    console.error('Could not read legacy practice records:', error);
+    return null;
+  }
+};
+
+export const clearLegacyRecords = (profileId = getActiveProfileId()) => {
+  localStorage.removeItem(profileStorageKey(LEGACY_RECORDS_KEY, profileId));
+};
+
+export const deleteStoredProgress = (profileId: string) => {
+  [PROGRESS_STORAGE_KEY, PROGRESS_BACKUP_KEY, LEGACY_RECORDS_KEY].forEach(key => {
+    localStorage.removeItem(profileStorageKey(key, profileId));
+  });
+};
@@ -0,0 +1,74 @@
+// Memorisation: progressive word hiding with a spaced-retrieval schedule
+
+export interface WordRecall {
+  // 0 while the word is shown; each recall while hidden moves it up a box
+  box: number;
+  // Memorisation round from which a shown word may be hidden again
+  due: number;
+  recalled: number;
+  missed: number;
+  // Misses in a row, which lengthen the wait before the word is hidden again
+  lapses: number;
+}
+
+export interface MantraRecall {
+  // Accepted memorisation repetitions of the mantra
+  round: number;
+  // One entry per word of the mantra
+  words: WordRecall[];
+}
+
+// Recall per mantra id
+export type RecallProgress = Record<string, MantraRecall>;
+
+export const MASTERED_BOX = 5;
+
+// Rounds a missed word stays shown, by lapses in a row
+const RETRY_DELAYS = [1, 2, 4];
+
+const NEW_WORD: WordRecall = { box: 0, due: 0, recalled: 0, missed: 0, lapses: 0 };
+
+// Recall state of a mantra, with an entry for every word
+export const getMantraRecall = (recall: RecallProgress, mantraId: string, wordCount: number): MantraRecall => {
+  const stored = recall[mantraId] ?? { round: 0, words: [] };
+  return {
+    round: stored.round,
+    words: Array.from({ length: wordCount }, (_, index) => stored.words[index] ?? NEW_WORD),
+  };
+};
+
+export const isHidden = (word: WordRecall) => word.box > 0;
+
+// Words hidden after each accepted repetition, so longer mantras fade faster
+export const wordsToHide = (wordCount: number) => Math.max(1, Math.round(wordCount / 6));
+
+// Update recall after a memorisation attempt. `recalled` tells, per word,
+// whether it was typed correctly. Hidden words that were missed are shown
+// again; an accepted repetition also hides more of the shown words, those
+// recalled most reliably first.
+export const gradeRecall = (state: MantraRecall, recalled: boolean[], accepted: boolean): MantraRecall => {
+  const round = accepted ? state.round + 1 : state.round;
+
+  const words = state.words.map((word, index): WordRecall => {
+    if (!isHidden(word)) return word;
+    if (recalled[index]) {
+      return { ...word, box: Math.min(MASTERED_BOX, word.box + 1), recalled: word.recalled + 1, lapses: 0 };
+    }
+    const lapses = word.lapses + 1;
+    const delay = RETRY_DELAYS[Math.min(lapses, RETRY_DELAYS.length) - 1];
+    return { ...word, box: 0, due: round + delay, missed: word.missed + 1, lapses };
+  });
+
+  if (accepted) {
+    words
+      .map((word, index) => ({ word, index }))
+      .filter(({ word }) => !isHidden(word) && word.due <= round)
+      .sort((a, b) => a.word.missed - b.word.missed || a.index - b.index)
+      .slice(0, wordsToHide(words.length))
+      .forEach(({ word, index }) => {
+        words[index] = { ...word, box: 1 };
+      });
+  }
+
+  return { round, words };
+};
@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EMPTY_HISTORY, type PracticeHistory, type RepetitionRecord, type SessionRecord } from '@/lib/history';
+import { buildCards, dueMantras, newCard, reviewCard, todaysPractice } from '@/lib/scheduler';
+import type { WordRecall } from '@/lib/recall';
+
+// Runs in Asia/Kolkata (see vite.config.ts), so times are written with their offset
+const NOW = new Date('2026-03-05T10:00:00+05:30');
+
+const typed = (mantraId: string, timestamp: string, accuracy = 100): RepetitionRecord => ({
+  timestamp: new Date(timestamp).toISOString(),
+  mantraId,
+  script: 'hindi',
+  source: 'typed',
+  accuracy,
+});
+
+const session = (mantraId: string, completedAt: string, accuracy: number): SessionRecord => ({
+  startedAt: new Date(completedAt).toISOString(),
+  completedAt: new Date(completedAt).toISOString(),
+  mantraId,
+  script: 'hindi',
+  repetitions: 3,
+  points: 10,
+  accuracy,
+});
+
+const historyOf = (repetitions: RepetitionRecord[], sessions: SessionRecord[] = []): PracticeHistory => ({
+  repetitions,
+  sessions,
+});
+
+const word = (recall: Partial<WordRecall> = {}): WordRecall => ({
+  box: 0, due: 0, recalled: 0, missed: 0, lapses: 0, ...recall,
+});
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('reviewCard', () => {
+  it('schedules successful reviews 1, 6 and then interval × easiness days out', () => {
+    const first = reviewCard(newCard(NOW), 5, NOW);
+    expect(first).toMatchObject({ repetitions: 1, interval: 1 });
+    expect(first.easiness).toBeCloseTo(2.6);
+    expect(first.due).toEqual(new Date('2026-03-06T00:00:00+05:30'));
+
+    const second = reviewCard(first, 5, NOW);
+    expect(second).toMatchObject({ repetitions: 2, interval: 6 });
+    expect(second.due).toEqual(new Date('2026-03-11T00:00:00+05:30'));
+
+    const third = reviewCard(second, 5, NOW);
+    expect(third).toMatchObject({ repetitions: 3, interval: 16 });
+    expect(third.easiness).toBeCloseTo(2.8);
+  });
+
+  it('keeps easiness on a quality 4 review', () => {
+    expect(reviewCard(newCard(NOW), 4, NOW).easiness).toBeCloseTo(2.5);
+  });
+
+  it('starts over the next day after a failed review', () => {
+    const card = { repetitions: 4, easiness: 2.5, interval: 20, due: NOW };
+    const failed = reviewCard(card, 2, NOW);
+    expect(failed).toMatchObject({ repetitions: 0, interval: 1 });
+    expect(failed.easiness).toBeCloseTo(2.18);
+    expect(failed.due).toEqual(new Date('2026-03-06T00:00:00+05:30'));
+  });
+
+  it('never lets easiness fall below 1.3', () => {
+    const card = { repetitions: 0, easiness: 1.3, interval: 1, due: NOW };
+    expect(reviewCard(card, 0, NOW).easiness).toBe(1.3);
+  });
+});
+
+describe('buildCards', () => {
+  it('reviews each mantra once per local day', () => {
+    const cards = buildCards(historyOf([
+      typed('gayatri', '2026-03-01T09:00:00+05:30'),
+      typed('gayatri', '2026-03-01T22:30:00+05:30'),
+      // 19:00 UTC on 1 March, already 2 March in India
+      typed('gayatri', '2026-03-01T19:00:00Z'),
+    ]));
+
+    expect(cards.get('gayatri')).toMatchObject({ repetitions: 2, interval: 6 });
+    expect(cards.get('gayatri')?.due).toEqual(new Date('2026-03-08T00:00:00+05:30'));
+  });
+
+  it('ignores counted repetitions', () => {
+    const cards = buildCards(historyOf([
+      { ...typed('gayatri', '2026-03-01T09:00:00+05:30'), source: 'count', accuracy: undefined },
+    ]));
+    expect(cards.size).toBe(0);
+  });
+
+  it('grades a day by the share of submissions accepted first time', () => {
+    const cards = buildCards(historyOf(
+      [typed('gayatri', '2026-03-01T09:00:00+05:30')],
+      [session('gayatri', '2026-03-01T09:05:00+05:30', 50)]
+    ));
+    expect(cards.get('gayatri')).toMatchObject({ repetitions: 0, interval: 1 });
+  });
+});
+
+describe('dueMantras', () => {
+  it('offers the first mantra as new when nothing has been practised', () => {
+    expect(dueMantras(EMPTY_HISTORY)).toEqual([
+      { kind: 'mantra', mantraId: 'gayatri', due: new Date('2026-03-05T00:00:00+05:30'), overdueDays: 0, isNew: true },
+    ]);
+  });
+
+  it('lists the most overdue mantras first, then one new mantra', () => {
+    const items = dueMantras(historyOf([
+      typed('gayatri', '2026-03-01T09:00:00+05:30'),
+      typed('mahamrityunjaya', '2026-02-20T09:00:00+05:30'),
+    ]));
+
+    expect(items.map(item => [item.mantraId, item.overdueDays, item.isNew])).toEqual([
+      ['mahamrityunjaya', 12, false],
+      ['gayatri', 3, false],
+      ['om-namah-shivaya', 0, true],
+    ]);
+  });
+
+  it('leaves out mantras that are not due yet or no longer exist', () => {
+    const items = dueMantras(historyOf([
+      typed('gayatri', '2026-03-05T08:00:00+05:30'),
+      typed('retired-mantra', '2026-02-01T09:00:00+05:30'),
+    ]));
+    expect(items.map(item => item.mantraId)).toEqual(['mahamrityunjaya']);
+  });
+});
+
+describe('todaysPractice', () => {
+  it('adds difficult phrases after the due mantras', () => {
+    const queue = todaysPractice(
+      historyOf([typed('gayatri', '2026-03-05T08:00:00+05:30')]),
+      { gayatri: { round: 3, words: [word({ missed: 2, lapses: 1, due: 4 }), word({ box: 2, recalled: 2 })] } }
+    );
+
+    expect(queue.items).toEqual([
+      { kind: 'mantra', mantraId: 'mahamrityunjaya', due: new Date('2026-03-05T00:00:00+05:30'), overdueDays: 0, isNew: true },
+      { kind: 'phrase', mantraId: 'gayatri', phrase: 0, missRate: 0.5 },
+    ]);
+    expect(queue.nextDue).toEqual(new Date('2026-03-06T00:00:00+05:30'));
+  });
+
+  it('has no next review before anything is practised', () => {
+    expect(todaysPractice(EMPTY_HISTORY, {}).nextDue).toBeNull();
+  });
+});
@@ -0,0 +1,166 @@
+import { addDays, differenceInCalendarDays, parseISO, startOfDay } from 'date-fns';
+import { MANTRAS, getMantraPhrases } from '@/lib/mantras';
+import type { PracticeHistory } from '@/lib/history';
+import type { RecallProgress } from '@/lib/recall';
+import { localDayKey } from '@/lib/streaks';
+
+// SM-2 spaced repetition. Cards are rebuilt from the practice history on
+// every call, so the schedule needs no storage of its own and the same
+// history and clock always give the same queue.
+
+export interface Sm2Card {
+  // Successful reviews in a row
+  repetitions: number;
+  easiness: number;
+  // Days until the next review
+  interval: number;
+  due: Date;
+}
+
+export interface MantraItem {
+  kind: 'mantra';
+  mantraId: string;
+  due: Date;
+  overdueDays: number;
+  // Never practised before
+  isNew: boolean;
+}
+
+export interface PhraseItem {
+  kind: 'phrase';
+  mantraId: string;
+  // Index into the mantra's phrases
+  phrase: number;
+  // Share of memorisation attempts at its words that were missed
+  missRate: number;
+}
+
+export type PracticeItem = MantraItem | PhraseItem;
+
+export interface PracticeQueue {
+  items: PracticeItem[];
+  // Earliest review after today, when nothing else is due
+  nextDue: Date | null;
+}
+
+const INITIAL_EASINESS = 2.5;
+const MIN_EASINESS = 1.3;
+// Unpractised mantras introduced per day
+const NEW_PER_DAY = 1;
+// Phrases whose hidden words are missed this often count as difficult
+const DIFFICULT_MISS_RATE = 0.3;
+const MAX_PHRASES = 3;
+
+export const newCard = (now: Date): Sm2Card => ({
+  repetitions: 0,
+  easiness: INITIAL_EASINESS,
+  interval: 0,
+  due: startOfDay(now),
+});
+
+// Review quality 0–5 from a day's mean accuracy, scaled by the share of
+// submissions accepted first time (failed attempts are not logged as repetitions)
+export const reviewQuality = (accuracy: number, firstTry = 100): number => {
+  const score = accuracy * (firstTry / 100);
+  if (score >= 98) return 5;
+  if (score >= 90) return 4;
+  if (score >= 80) return 3;
+  if (score >= 60) return 2;
+  if (score >= 40) return 1;
+  return 0;
+};
+
+export const reviewCard = (card: Sm2Card, quality: number, reviewedAt: Date): Sm2Card => {
+  const easiness = Math.max(MIN_EASINESS, card.easiness + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+  if (quality < 3) {
+    return { repetitions: 0, easiness, interval: 1, due: addDays(startOfDay(reviewedAt), 1) };
+  }
+
+  const repetitions = card.repetitions + 1;
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * card.easiness);
+  return { repetitions, easiness, interval, due: addDays(startOfDay(reviewedAt), interval) };
+};
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// One review per mantra per day it was typed, replayed in order
+export const buildCards = (history: PracticeHistory): Map<string, Sm2Card> => {
+  const days = new Map<string, { day: Date; accuracies: number[]; firstTry: number[] }>();
+  history.repetitions.forEach(record => {
+    if (record.source !== 'typed' || record.accuracy === undefined) return;
+    const date = parseISO(record.timestamp);
+    const key = `${record.mantraId}|${localDayKey(date)}`;
+    const entry = days.get(key) ?? { day: startOfDay(date), accuracies: [], firstTry: [] };
+    entry.accuracies.push(record.accuracy);
+    days.set(key, entry);
+  });
+  history.sessions.forEach(session => {
+    if (session.accuracy === undefined) return;
+    days.get(`${session.mantraId}|${localDayKey(parseISO(session.completedAt))}`)?.firstTry.push(session.accuracy);
+  });
+
+  const cards = new Map<string, Sm2Card>();
+  [...days.entries()]
+    .sort(([, a], [, b]) => a.day.getTime() - b.day.getTime())
+    .forEach(([key, { day, accuracies, firstTry }]) => {
+      const mantraId = key.split('|')[0];
+      const quality = reviewQuality(average(accuracies), firstTry.length > 0 ? average(firstTry) : undefined);
+      cards.set(mantraId, reviewCard(cards.get(mantraId) ?? newCard(day), quality, day));
+    });
+  return cards;
+};
+
+// Phrases of practised mantras whose hidden words are often missed, or
+// were missed the last time they were hidden
+export const difficultPhrases = (recall: RecallProgress): PhraseItem[] =>
+  MANTRAS.flatMap(mantra => {
+    const words = recall[mantra.id]?.words ?? [];
+    return getMantraPhrases(mantra, 'hindi').flatMap((phrase, index) => {
+      const phraseWords = words.slice(phrase.start, phrase.end);
+      const missed = phraseWords.reduce((sum, word) => sum + word.missed, 0);
+      const attempts = phraseWords.reduce((sum, word) => sum + word.missed + word.recalled, 0);
+      const missRate = attempts > 0 ? missed / attempts : 0;
+      const lapsed = phraseWords.some(word => word.lapses > 0);
+      return missRate >= DIFFICULT_MISS_RATE || lapsed
+        ? [{ kind: 'phrase' as const, mantraId: mantra.id, phrase: index, missRate }]
+        : [];
+    });
+  })
+    .sort((a, b) => b.missRate - a.missRate)
+    .slice(0, MAX_PHRASES);
+
+// Mantras to review today, most overdue first, then a new mantra
+export const dueMantras = (history: PracticeHistory, now = new Date()): MantraItem[] => {
+  const today = startOfDay(now);
+  const cards = buildCards(history);
+
+  const due: MantraItem[] = [...cards.entries()]
+    .filter(([mantraId, card]) => card.due <= today && MANTRAS.some(mantra => mantra.id === mantraId))
+    .sort(([, a], [, b]) => a.due.getTime() - b.due.getTime() || a.easiness - b.easiness)
+    .map(([mantraId, card]) => ({
+      kind: 'mantra',
+      mantraId,
+      due: card.due,
+      overdueDays: differenceInCalendarDays(today, card.due),
+      isNew: false,
+    }));
+
+  const unpractised: MantraItem[] = MANTRAS
+    .filter(mantra => !cards.has(mantra.id))
+    .slice(0, NEW_PER_DAY)
+    .map(mantra => ({ kind: 'mantra', mantraId: mantra.id, due: today, overdueDays: 0, isNew: true }));
+
+  return [...due, ...unpractised];
+};
+
+export const nextReview = (history: PracticeHistory, now = new Date()): Date | null => {
+  const today = startOfDay(now);
+  const upcoming = [...buildCards(history).values()].map(card => card.due.getTime()).filter(time => time > today.getTime());
+  return upcoming.length > 0 ? new Date(Math.min(...upcoming)) : null;
+};
+
+// What to practise today: due mantras, then the most difficult phrases
+export const todaysPractice = (history: PracticeHistory, recall: RecallProgress, now = new Date()): PracticeQueue => ({
+  items: [...dueMantras(history, now), ...difficultPhrases(recall)],
+  nextDue: nextReview(history, now),
+});
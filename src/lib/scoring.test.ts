@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { scoreCompletionBonus, scoreRepetition, sessionTotal } from '@/lib/scoring';
+import { DEFAULT_SESSION_SETTINGS } from '@/lib/session-settings';
+
+const { pointsPerRepetition, completionBonus } = DEFAULT_SESSION_SETTINGS;
+
+const repetition = (accuracy: number, aksharasPerMinute = 0, streakDays = 0) =>
+  scoreRepetition(pointsPerRepetition, { accuracy, aksharasPerMinute, streakDays }).points;
+
+describe('scoreRepetition', () => {
+  it('scores a perfect repetition above a near miss, and a near miss above a sloppy one', () => {
+    expect(repetition(100)).toBe(pointsPerRepetition);
+    expect(repetition(100)).toBeGreaterThan(repetition(95));
+    expect(repetition(99)).toBeGreaterThan(repetition(95));
+    expect(repetition(95)).toBeGreaterThan(repetition(85));
+    expect(repetition(85)).toBe(pointsPerRepetition / 2);
+  });
+
+  it('does not let speed make up for mistakes', () => {
+    expect(repetition(88, 100)).toBeLessThan(repetition(100));
+  });
+
+  it('applies the speed tiers', () => {
+    expect(repetition(100, 29)).toBe(2);
+    expect(repetition(100, 30)).toBe(2.1);
+    expect(repetition(100, 50)).toBe(2.3);
+    expect(repetition(100, 80)).toBe(2.5);
+  });
+
+  it('applies the streak tiers', () => {
+    expect(repetition(100, 0, 2)).toBe(2);
+    expect(repetition(100, 0, 3)).toBe(2.2);
+    expect(repetition(100, 0, 7)).toBe(2.5);
+    expect(repetition(100, 0, 30)).toBe(3);
+  });
+
+  it('lists the multipliers applied', () => {
+    expect(scoreRepetition(2, { accuracy: 95, aksharasPerMinute: 60, streakDays: 7 }).multipliers.map(item => item.label))
+      .toEqual(['95% accuracy', '60 aksharas/min', '7-day streak']);
+  });
+});
+
+describe('scoreCompletionBonus', () => {
+  const bonus = (accuracies: number[], aksharasPerMinute = 0, streakDays = 0) =>
+    scoreCompletionBonus(completionBonus, { accuracies, aksharasPerMinute, streakDays }).points;
+
+  it('weights the bonus by the average accuracy of the session', () => {
+    expect(bonus([100, 100, 100])).toBe(completionBonus);
+    expect(bonus([100, 100, 100])).toBeGreaterThan(bonus([95, 95, 95]));
+    expect(bonus([95, 95, 95])).toBeGreaterThan(bonus([85, 85, 85]));
+    expect(bonus([100, 90, 95])).toBe(bonus([95, 95, 95]));
+  });
+
+  it('gives the full bonus when no accuracy was recorded', () => {
+    expect(bonus([])).toBe(completionBonus);
+  });
+
+  it('applies the speed and streak tiers', () => {
+    expect(bonus([100], 80)).toBe(5);
+    expect(bonus([100], 0, 30)).toBe(6);
+    expect(bonus([100], 80, 30)).toBe(7.5);
+  });
+});
+
+describe('sessionTotal', () => {
+  it('rounds only the session total', () => {
+    expect(sessionTotal([1.7, 1.7, 1.7, 3.3])).toBe(8);
+    expect(sessionTotal([2, 2, 2, 4])).toBe(10);
+  });
+});
@@ -0,0 +1,86 @@
+
+// Strict accepts only exact repetitions; lenient also accepts near misses,
+// which then earn fewer points
+export type ScoringMode = 'strict' | 'lenient';
+
+export const SCORING_MODES: Array<{ id: ScoringMode; label: string; description: string }> = [
+  { id: 'lenient', label: 'Lenient', description: 'Repetitions at 85% accuracy or more count, scored by accuracy' },
+  { id: 'strict', label: 'Strict', description: 'Only exact repetitions count' },
+];
+
+export const LENIENT_MIN_ACCURACY = 85;
+
+export const isAccepted = (accuracy: number, mode: ScoringMode): boolean =>
+  accuracy >= (mode === 'strict' ? 100 : LENIENT_MIN_ACCURACY);
+
+export interface Multiplier {
+  label: string;
+  value: number;
+}
+
+export interface ScoreBreakdown {
+  base: number;
+  multipliers: Multiplier[];
+  // Kept to a tenth so the multipliers still tell repetitions apart; only
+  // session totals are rounded to whole points
+  points: number;
+}
+
+// Full points at 100%, falling to half at the lenient minimum
+export const accuracyMultiplier = (accuracy: number): Multiplier => ({
+  label: `${accuracy}% accuracy`,
+  value: Math.max(0, Math.min(1, 1 - (100 - accuracy) / (2 * (100 - LENIENT_MIN_ACCURACY)))),
+});
+
+// Thresholds are checked from the top; the first one reached applies
+const SPEED_TIERS: Array<[aksharasPerMinute: number, value: number]> = [
+  [80, 1.25],
+  [50, 1.15],
+  [30, 1.05],
+];
+
+const STREAK_TIERS: Array<[days: number, value: number]> = [
+  [30, 1.5],
+  [7, 1.25],
+  [3, 1.1],
+];
+
+const tierValue = (tiers: Array<[number, number]>, amount: number) =>
+  tiers.find(([threshold]) => amount >= threshold)?.[1] ?? 1;
+
+export const speedMultiplier = (aksharasPerMinute: number): Multiplier => ({
+  label: `${aksharasPerMinute} aksharas/min`,
+  value: tierValue(SPEED_TIERS, aksharasPerMinute),
+});
+
+export const streakMultiplier = (streakDays: number): Multiplier => ({
+  label: `${streakDays}-day streak`,
+  value: tierValue(STREAK_TIERS, streakDays),
+});
+
+const score = (base: number, multipliers: Multiplier[]): ScoreBreakdown => ({
+  base,
+  multipliers,
+  points: Math.round(multipliers.reduce((points, multiplier) => points * multiplier.value, base) * 10) / 10,
+});
+
+// Whole points earned by a session's repetitions and bonus
+export const sessionTotal = (points: number[]): number =>
+  Math.round(points.reduce((sum, value) => sum + value, 0));
+
+export const scoreRepetition = (
+  base: number,
+  { accuracy, aksharasPerMinute, streakDays }: { accuracy: number; aksharasPerMinute: number; streakDays: number }
+): ScoreBreakdown =>
+  score(base, [accuracyMultiplier(accuracy), speedMultiplier(aksharasPerMinute), streakMultiplier(streakDays)]);
+
+// The completion bonus is weighted by the session's average accuracy and speed
+export const scoreCompletionBonus = (
+  bonus: number,
+  { accuracies, aksharasPerMinute, streakDays }: { accuracies: number[]; aksharasPerMinute: number; streakDays: number }
+): ScoreBreakdown => {
+  const average = accuracies.length > 0
+    ? Math.round(accuracies.reduce((sum, accuracy) => sum + accuracy, 0) / accuracies.length)
+    : 100;
+  return score(bonus, [accuracyMultiplier(average), speedMultiplier(aksharasPerMinute), streakMultiplier(streakDays)]);
+};
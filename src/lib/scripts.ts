@@ -0,0 +1,44 @@
+export type Script = 'hindi' | 'iast' | 'itrans' | 'hinglish';
+
+export interface ScriptInfo {
+  id: Script;
+  label: string;
+  // Accuracy rule shown next to the script picker
+  rule: string;
+  fontClass: string;
+  caseSensitive: boolean;
+}
+
+export const SCRIPTS: ScriptInfo[] = [
+  {
+    id: 'hindi',
+    label: 'Hindi (देवनागरी)',
+    rule: 'Compared akshara by akshara; nukta and ZWJ/ZWNJ are ignored',
+    fontClass: 'font-sanskrit',
+    caseSensitive: true,
+  },
+  {
+    id: 'iast',
+    label: 'IAST (ā ī ū ṛ ṃ ḥ)',
+    rule: 'Diacritics are required; case is ignored',
+    fontClass: 'font-mantra',
+    caseSensitive: false,
+  },
+  {
+    id: 'itrans',
+    label: 'ITRANS (A I U R^i M H)',
+    rule: 'Case matters; equivalent spellings such as aa/A or sh/z are accepted',
+    fontClass: 'font-mantra',
+    caseSensitive: true,
+  },
+  {
+    id: 'hinglish',
+    label: 'Hinglish (Roman)',
+    rule: 'Plain Roman letters; case is ignored',
+    fontClass: 'font-mantra',
+    caseSensitive: false,
+  },
+];
+
+export const getScript = (id: Script): ScriptInfo =>
+  SCRIPTS.find(script => script.id === id) ?? SCRIPTS[0];
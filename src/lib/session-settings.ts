@@ -0,0 +1,53 @@
+import { profileStorageKey } from '@/lib/profiles';
+import { DEFAULT_LEVEL_CURVE_ID } from '@/lib/levels';
+import type { ScoringMode } from '@/lib/scoring';
+
+export interface SessionSettings {
+  repetitionTarget: number;
+  pointsPerRepetition: number;
+  completionBonus: number;
+  // Whether a failed submission sends the repetition count back to zero
+  resetOnFail: boolean;
+  // Number of beads on the mala used in japa mode
+  malaSize: number;
+  // How quickly the points needed per level grow, see LEVEL_CURVES
+  levelCurve: string;
+  scoringMode: ScoringMode;
+}
+
+// Defaults reproduce the original rules: 3 repetitions for 10 points
+export const DEFAULT_SESSION_SETTINGS: SessionSettings = {
+  repetitionTarget: 3,
+  pointsPerRepetition: 2,
+  completionBonus: 4,
+  resetOnFail: false,
+  malaSize: 108,
+  levelCurve: DEFAULT_LEVEL_CURVE_ID,
+  scoringMode: 'lenient',
+};
+
+// Traditional japa counts
+export const REPETITION_PRESETS = [3, 11, 21, 108, 1008];
+
+const STORAGE_KEY = 'mantra-settings';
+
+// Points for a perfect session, before speed and streak multipliers
+export const sessionPoints = (settings: SessionSettings): number =>
+  settings.repetitionTarget * settings.pointsPerRepetition + settings.completionBonus;
+
+export const loadSessionSettings = (): SessionSettings => {
+  try {
+    const saved = localStorage.getItem(profileStorageKey(STORAGE_KEY));
+    return saved ? { ...DEFAULT_SESSION_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SESSION_SETTINGS;
+  } catch {
+    return DEFAULT_SESSION_SETTINGS;
+  }
+};
+
+export const saveSessionSettings = (settings: SessionSettings) => {
+  localStorage.setItem(profileStorageKey(STORAGE_KEY), JSON.stringify(settings));
+};
+
+export const deleteSessionSettings = (profileId: string) => {
+  localStorage.removeItem(profileStorageKey(STORAGE_KEY, profileId));
+};
@@ -0,0 +1,39 @@
+import { differenceInCalendarDays, format, parseISO, subDays } from 'date-fns';
+import type { PracticeHistory } from '@/lib/history';
+
+export interface StreakStats {
+  current: number;
+  longest: number;
+  practisedToday: boolean;
+}
+
+// Calendar day in the user's local time zone, e.g. "2025-05-21"
+export const localDayKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+export const practiceDays = (history: PracticeHistory): Set<string> =>
+  new Set(history.repetitions.map(record => localDayKey(parseISO(record.timestamp))));
+
+export const calculateStreaks = (history: PracticeHistory, now = new Date()): StreakStats => {
+  const days = practiceDays(history);
+  const practisedToday = days.has(localDayKey(now));
+
+  // A streak stays alive until the end of today, so count back from yesterday if needed
+  let current = 0;
+  let cursor = practisedToday ? now : subDays(now, 1);
+  while (days.has(localDayKey(cursor))) {
+    current++;
+    cursor = subDays(cursor, 1);
+  }
+
+  let longest = 0;
+  let run = 0;
+  let previous: Date | null = null;
+  [...days].sort().forEach(key => {
+    const day = parseISO(key);
+    run = previous && differenceInCalendarDays(day, previous) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
+  });
+
+  return { current, longest, practisedToday };
+};
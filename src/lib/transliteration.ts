@@ -0,0 +1,221 @@
+// Roman (ITRANS / Harvard-Kyoto) to Devanagari transliteration
+
+const VIRAMA = '्';
+
+// Independent vowel and its dependent sign (matra)
+const VOWELS: Record<string, [string, string]> = {
+  a: ['अ', ''],
+  aa: ['आ', 'ा'],
+  A: ['आ', 'ा'],
+  i: ['इ', 'ि'],
+  ii: ['ई', 'ी'],
+  I: ['ई', 'ी'],
+  ee: ['ई', 'ी'],
+  u: ['उ', 'ु'],
+  uu: ['ऊ', 'ू'],
+  U: ['ऊ', 'ू'],
+  oo: ['ऊ', 'ू'],
+  RRi: ['ऋ', 'ृ'],
+  'R^i': ['ऋ', 'ृ'],
+  R: ['ऋ', 'ृ'],
+  RRI: ['ॠ', 'ॄ'],
+  'R^I': ['ॠ', 'ॄ'],
+  RR: ['ॠ', 'ॄ'],
+  LLi: ['ऌ', 'ॢ'],
+  'L^i': ['ऌ', 'ॢ'],
+  lR: ['ऌ', 'ॢ'],
+  e: ['ए', 'े'],
+  E: ['ए', 'े'],
+  ai: ['ऐ', 'ै'],
+  o: ['ओ', 'ो'],
+  O: ['ओ', 'ो'],
+  au: ['औ', 'ौ'],
+};
+
+const CONSONANTS: Record<string, string> = {
+  k: 'क', kh: 'ख', g: 'ग', gh: 'घ', '~N': 'ङ', 'N^': 'ङ', G: 'ङ',
+  c: 'च', ch: 'च', Ch: 'छ', chh: 'छ', j: 'ज', jh: 'झ', '~n': 'ञ', 'JN': 'ञ', J: 'ञ',
+  T: 'ट', Th: 'ठ', D: 'ड', Dh: 'ढ', N: 'ण',
+  t: 'त', th: 'थ', d: 'द', dh: 'ध', n: 'न',
+  p: 'प', ph: 'फ', f: 'फ', b: 'ब', bh: 'भ', m: 'म',
+  y: 'य', r: 'र', l: 'ल', L: 'ळ', v: 'व', w: 'व',
+  sh: 'श', z: 'श', Sh: 'ष', shh: 'ष', S: 'ष', s: 'स', h: 'ह',
+  x: 'क्ष', kSh: 'क्ष', kS: 'क्ष', ksh: 'क्ष',
+  GY: 'ज्ञ', 'j~n': 'ज्ञ', jJ: 'ज्ञ', dny: 'ज्ञ',
+};
+
+// Signs that attach to the preceding syllable
+const MODIFIERS: Record<string, string> = {
+  M: 'ं', '.n': 'ं', H: 'ः', '.N': 'ँ', '.c': 'ँ',
+};
+
+const SYMBOLS: Record<string, string> = {
+  OM: 'ॐ', AUM: 'ॐ', '.a': 'ऽ', "'": 'ऽ', '.h': VIRAMA,
+  '|': '।', '||': '॥', '.': '।', '..': '॥',
+};
+
+const TOKENS = [...new Set([
+  ...Object.keys(VOWELS),
+  ...Object.keys(CONSONANTS),
+  ...Object.keys(MODIFIERS),
+  ...Object.keys(SYMBOLS),
+])].sort((a, b) => b.length - a.length);
+
+const SACRED_SYLLABLE = /^(om|aum)(?![A-Za-z])/i;
+
+// Convert ITRANS / Harvard-Kyoto keystrokes into Devanagari,
+// e.g. "bhUrbhuvaH" → "भूर्भुवः". Unknown characters pass through unchanged.
+export const romanToDevanagari = (input: string): string => {
+  let output = '';
+  // True while the last consonant still carries its inherent vowel slot
+  let pendingConsonant = false;
+  let i = 0;
+
+  const closeConsonant = () => {
+    if (pendingConsonant) output += VIRAMA;
+    pendingConsonant = false;
+  };
+
+  while (i < input.length) {
+    const atWordStart = i === 0 || !/[A-Za-z~^.']/.test(input[i - 1]);
+    const sacred = atWordStart ? input.slice(i).match(SACRED_SYLLABLE) : null;
+    if (sacred) {
+      closeConsonant();
+      output += 'ॐ';
+      i += sacred[0].length;
+      continue;
+    }
+
+    const token = TOKENS.find(candidate => input.startsWith(candidate, i));
+    if (!token) {
+      closeConsonant();
+      output += input[i];
+      i++;
+      continue;
+    }
+    i += token.length;
+
+    if (token in CONSONANTS) {
+      closeConsonant();
+      output += CONSONANTS[token];
+      pendingConsonant = true;
+    } else if (token in VOWELS) {
+      const [independent, matra] = VOWELS[token];
+      output += pendingConsonant ? matra : independent;
+      pendingConsonant = false;
+    } else if (token in MODIFIERS) {
+      output += MODIFIERS[token];
+      pendingConsonant = false;
+    } else if (token === '.h') {
+      closeConsonant();
+    } else {
+      closeConsonant();
+      output += SYMBOLS[token];
+    }
+  }
+
+  closeConsonant();
+  return output;
+};
+
+// Devanagari to Roman transliteration
+
+export type RomanScheme = 'iast' | 'itrans' | 'hinglish';
+
+type SchemeTable = Record<string, [iast: string, itrans: string, hinglish: string]>;
+
+const SCHEME_INDEX: Record<RomanScheme, number> = { iast: 0, itrans: 1, hinglish: 2 };
+
+const DEVANAGARI_VOWELS: SchemeTable = {
+  'अ': ['a', 'a', 'a'],
+  'आ': ['ā', 'A', 'a'],
+  'इ': ['i', 'i', 'i'],
+  'ई': ['ī', 'I', 'i'],
+  'उ': ['u', 'u', 'u'],
+  'ऊ': ['ū', 'U', 'u'],
+  'ऋ': ['ṛ', 'RRi', 'ri'],
+  'ॠ': ['ṝ', 'RRI', 'ri'],
+  'ऌ': ['ḷ', 'LLi', 'li'],
+  'ए': ['e', 'e', 'e'],
+  'ऐ': ['ai', 'ai', 'ai'],
+  'ओ': ['o', 'o', 'o'],
+  'औ': ['au', 'au', 'au'],
+};
+
+const DEVANAGARI_MATRAS: SchemeTable = {
+  'ा': DEVANAGARI_VOWELS['आ'],
+  'ि': DEVANAGARI_VOWELS['इ'],
+  'ी': DEVANAGARI_VOWELS['ई'],
+  'ु': DEVANAGARI_VOWELS['उ'],
+  'ू': DEVANAGARI_VOWELS['ऊ'],
+  'ृ': DEVANAGARI_VOWELS['ऋ'],
+  'ॄ': DEVANAGARI_VOWELS['ॠ'],
+  'ॢ': DEVANAGARI_VOWELS['ऌ'],
+  'े': DEVANAGARI_VOWELS['ए'],
+  'ै': DEVANAGARI_VOWELS['ऐ'],
+  'ो': DEVANAGARI_VOWELS['ओ'],
+  'ौ': DEVANAGARI_VOWELS['औ'],
+};
+
+const DEVANAGARI_CONSONANTS: SchemeTable = {
+  'क': ['k', 'k', 'k'], 'ख': ['kh', 'kh', 'kh'], 'ग': ['g', 'g', 'g'], 'घ': ['gh', 'gh', 'gh'], 'ङ': ['ṅ', '~N', 'n'],
+  'च': ['c', 'ch', 'ch'], 'छ': ['ch', 'Ch', 'chh'], 'ज': ['j', 'j', 'j'], 'झ': ['jh', 'jh', 'jh'], 'ञ': ['ñ', '~n', 'n'],
+  'ट': ['ṭ', 'T', 't'], 'ठ': ['ṭh', 'Th', 'th'], 'ड': ['ḍ', 'D', 'd'], 'ढ': ['ḍh', 'Dh', 'dh'], 'ण': ['ṇ', 'N', 'n'],
+  'त': ['t', 't', 't'], 'थ': ['th', 'th', 'th'], 'द': ['d', 'd', 'd'], 'ध': ['dh', 'dh', 'dh'], 'न': ['n', 'n', 'n'],
+  'प': ['p', 'p', 'p'], 'फ': ['ph', 'ph', 'ph'], 'ब': ['b', 'b', 'b'], 'भ': ['bh', 'bh', 'bh'], 'म': ['m', 'm', 'm'],
+  'य': ['y', 'y', 'y'], 'र': ['r', 'r', 'r'], 'ल': ['l', 'l', 'l'], 'ळ': ['ḷ', 'L', 'l'], 'व': ['v', 'v', 'v'],
+  'श': ['ś', 'sh', 'sh'], 'ष': ['ṣ', 'Sh', 'sh'], 'स': ['s', 's', 's'], 'ह': ['h', 'h', 'h'],
+};
+
+const DEVANAGARI_SIGNS: SchemeTable = {
+  'ं': ['ṃ', 'M', 'n'],
+  'ः': ['ḥ', 'H', 'h'],
+  'ँ': ['m̐', '.N', 'n'],
+  'ऽ': ["'", '.a', ''],
+  'ॐ': ['oṃ', 'OM', 'om'],
+  '।': ['|', '|', '|'],
+  '॥': ['||', '||', '||'],
+};
+
+const LABIALS = new Set(['प', 'फ', 'ब', 'भ', 'म']);
+
+// Convert Devanagari text into IAST, ITRANS or loose "Hinglish" spelling,
+// e.g. "भूर्भुवः" → "bhūrbhuvaḥ" / "bhUrbhuvaH" / "bhurbhuvah"
+export const devanagariToRoman = (input: string, scheme: RomanScheme): string => {
+  const column = SCHEME_INDEX[scheme];
+  const chars = Array.from(input.normalize('NFC').replace(/\u093C/g, ''));
+  let output = '';
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    const next = chars[i + 1];
+
+    if (char === 'ज' && next === VIRAMA && chars[i + 2] === 'ञ' && scheme === 'hinglish') {
+      // ज्ञ is pronounced "gy" in everyday Roman spelling
+      output += 'gy';
+      i += 2;
+      if (chars[i + 1] !== VIRAMA && !(chars[i + 1] in DEVANAGARI_MATRAS)) output += 'a';
+    } else if (char in DEVANAGARI_CONSONANTS) {
+      output += DEVANAGARI_CONSONANTS[char][column];
+      // Inherent vowel unless followed by a matra or virama
+      if (next !== VIRAMA && !(next in DEVANAGARI_MATRAS)) output += 'a';
+    } else if (char in DEVANAGARI_MATRAS) {
+      output += DEVANAGARI_MATRAS[char][column];
+    } else if (char in DEVANAGARI_VOWELS) {
+      output += DEVANAGARI_VOWELS[char][column];
+    } else if (char === 'ं' && scheme === 'hinglish') {
+      // Anusvara sounds as "m" before labials and at the end of a word
+      output += !next || /\s/.test(next) || LABIALS.has(next) ? 'm' : 'n';
+    } else if (char in DEVANAGARI_SIGNS) {
+      output += DEVANAGARI_SIGNS[char][column];
+    } else if (char === VIRAMA) {
+      continue;
+    } else if (/[०-९]/.test(char)) {
+      output += String(char.charCodeAt(0) - 0x0966);
+    } else {
+      output += char;
+    }
+  }
+
+  return output;
+};
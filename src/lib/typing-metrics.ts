@@ -0,0 +1,87 @@
+import { splitGraphemes } from '@/lib/diff';
+
+export interface WordHesitation {
+  word: string;
+  // Pause before the first keystroke of this word
+  pauseMs: number;
+}
+
+export interface TypingMetrics {
+  durationMs: number;
+  wordsPerMinute: number;
+  aksharasPerMinute: number;
+  backspaces: number;
+  hesitations: WordHesitation[];
+}
+
+interface InputSnapshot {
+  time: number;
+  wordsStarted: number;
+}
+
+// Keystroke timeline of the repetition currently being typed
+export interface KeystrokeLog {
+  startedAt: number | null;
+  backspaces: number;
+  snapshots: InputSnapshot[];
+}
+
+export const createKeystrokeLog = (): KeystrokeLog => ({ startedAt: null, backspaces: 0, snapshots: [] });
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+export const recordKey = (log: KeystrokeLog, key: string, time = Date.now()) => {
+  if (log.startedAt === null) log.startedAt = time;
+  if (key === 'Backspace' || key === 'Delete') log.backspaces++;
+};
+
+export const recordInput = (log: KeystrokeLog, text: string, time = Date.now()) => {
+  if (log.startedAt === null) log.startedAt = time;
+  log.snapshots.push({ time, wordsStarted: countWords(text) });
+};
+
+const perMinute = (count: number, durationMs: number) =>
+  durationMs > 0 ? Math.round((count / durationMs) * 60000) : 0;
+
+// Summarise a finished repetition against the words of the target mantra
+export const computeTypingMetrics = (
+  log: KeystrokeLog,
+  targetWords: string[],
+  submittedAt = Date.now()
+): TypingMetrics => {
+  const durationMs = log.startedAt === null ? 0 : submittedAt - log.startedAt;
+  const aksharas = targetWords.reduce((sum, word) => sum + splitGraphemes(word).length, 0);
+
+  // The pause before a word is the gap between the previous change and the
+  // change that started it
+  const hesitations: WordHesitation[] = [];
+  let previous: InputSnapshot = { time: log.startedAt ?? submittedAt, wordsStarted: 0 };
+  log.snapshots.forEach(snapshot => {
+    if (snapshot.wordsStarted > previous.wordsStarted && snapshot.wordsStarted <= targetWords.length) {
+      const index = snapshot.wordsStarted - 1;
+      if (!hesitations[index]) {
+        hesitations[index] = { word: targetWords[index], pauseMs: snapshot.time - previous.time };
+      }
+    }
+    previous = snapshot;
+  });
+
+  return {
+    durationMs,
+    wordsPerMinute: perMinute(targetWords.length, durationMs),
+    aksharasPerMinute: perMinute(aksharas, durationMs),
+    backspaces: log.backspaces,
+    hesitations: hesitations.filter(Boolean),
+  };
+};
+
+export const slowestWord = (metrics: TypingMetrics): WordHesitation | undefined =>
+  metrics.hesitations.slice(1).reduce<WordHesitation | undefined>(
+    (slowest, hesitation) => (!slowest || hesitation.pauseMs > slowest.pauseMs ? hesitation : slowest),
+    undefined
+  );
+
+export const averageMetric = (values: Array<number | undefined>): number | undefined => {
+  const present = values.filter((value): value is number => value !== undefined);
+  return present.length > 0 ? Math.round(present.reduce((sum, value) => sum + value, 0) / present.length) : undefined;
+};
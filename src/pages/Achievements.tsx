@@ -0,0 +1,184 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { format, parseISO } from 'date-fns';
+import { ArrowLeft, Award, Lock } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Progress } from '@/components/ui/progress';
+import AchievementIcon from '@/components/AchievementIcon';
+import CertificateDialog from '@/components/CertificateDialog';
+import { useProfiles } from '@/hooks/use-profiles';
+import {
+  METRIC_DETAILS,
+  METRIC_LABELS,
+  METRIC_UNITS,
+  TIER_STYLES,
+  collectAchievementStats,
+  evaluateAchievements,
+  resolveAchievementId,
+  type AchievementMetric,
+  type AchievementProgress,
+} from '@/lib/achievements';
+import { buildCertificateData, type CertificateData } from '@/lib/certificate';
+import { EMPTY_HISTORY } from '@/lib/history';
+import { getPracticeStore, loadPracticeHistory } from '@/lib/practice-store';
+import { loadProgress } from '@/lib/progress';
+
+const formatUnlockDate = (unlockedAt: string | undefined, pattern: string) =>
+  unlockedAt ? format(parseISO(unlockedAt), pattern) : 'Date not recorded';
+
+const Achievements = () => {
+  const { activeProfile } = useProfiles();
+  const [selected, setSelected] = useState<AchievementProgress | null>(null);
+  const [certificate, setCertificate] = useState<CertificateData | null>(null);
+
+  const { data: history = EMPTY_HISTORY } = useQuery({
+    queryKey: ['practice-history', activeProfile.id],
+    queryFn: () => loadPracticeHistory(),
+  });
+  const { data: records = [] } = useQuery({
+    queryKey: ['achievements', activeProfile.id],
+    queryFn: async () => (await getPracticeStore()).getAchievements(),
+  });
+
+  // Unlock time of each achievement, by id
+  const unlockTimes = useMemo(
+    () => new Map(records.map(record => [resolveAchievementId(record.id), record.unlockedAt])),
+    [records]
+  );
+  const achievements = useMemo(() => {
+    const totals = loadProgress();
+    const stats = collectAchievementStats({ ...totals, history });
+    return evaluateAchievements(stats, [...unlockTimes.keys()]);
+  }, [history, unlockTimes]);
+
+  const unlockedCount = achievements.filter(item => item.unlocked).length;
+  const groups = Object.keys(METRIC_LABELS) as AchievementMetric[];
+
+  return (
+    <div className="min-h-screen bg-gradient-divine">
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <Button asChild variant="outline" className="border-accent">
+            <Link to="/">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Practice
+            </Link>
+          </Button>
+        </div>
+
+        <div className="text-center">
+          <h1 className="text-4xl font-bold bg-gradient-sacred bg-clip-text text-transparent font-mantra">
+            Achievements
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            {activeProfile.name} has unlocked {unlockedCount} of {achievements.length} achievements
+          </p>
+          <Progress value={(unlockedCount / achievements.length) * 100} className="h-2 max-w-sm mx-auto mt-3" />
+        </div>
+
+        {groups.map(metric => (
+          <section key={metric} className="space-y-3">
+            <h3 className="text-lg font-semibold">{METRIC_LABELS[metric]}</h3>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              {achievements.filter(item => item.achievement.metric === metric).map(item => {
+                const { achievement, unlocked, current, ratio } = item;
+                return (
+                  <Card
+                    key={achievement.id}
+                    role="button"
+                    tabIndex={0}
+                    onClick={() => setSelected(item)}
+                    onKeyDown={(e) => (e.key === 'Enter' || e.key === ' ') && setSelected(item)}
+                    className={`p-4 bg-card/80 backdrop-blur-sm shadow-peaceful cursor-pointer transition-all hover:scale-[1.02] ${unlocked ? '' : 'opacity-75'}`}
+                  >
+                    <div className="flex items-start gap-3">
+                      <AchievementIcon icon={achievement.icon} tier={achievement.tier} locked={!unlocked} />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-1 font-semibold">
+                          <span className="truncate">{achievement.title}</span>
+                          {!unlocked && <Lock className="w-3 h-3 shrink-0 text-muted-foreground" />}
+                        </div>
+                        <p className="text-xs text-muted-foreground">{achievement.description}</p>
+                      </div>
+                    </div>
+                    <div className="mt-3 text-xs">
+                      {unlocked ? (
+                        <span className="text-primary">
+                          Unlocked · {formatUnlockDate(unlockTimes.get(achievement.id), 'd MMM yyyy')}
+                        </span>
+                      ) : (
+                        <>
+                          <Progress value={ratio * 100} className="h-1.5 mb-1" />
+                          <span className="text-muted-foreground">
+                            {Math.floor(current)} / {achievement.goal} {METRIC_UNITS[metric]}
+                          </span>
+                        </>
+                      )}
+                    </div>
+                  </Card>
+                );
+              })}
+            </div>
+          </section>
+        ))}
+      </div>
+
+      <Dialog open={selected !== null} onOpenChange={(open) => !open && setSelected(null)}>
+        {selected && (
+          <DialogContent className="sm:max-w-sm text-center">
+            <AchievementIcon
+              icon={selected.achievement.icon}
+              tier={selected.achievement.tier}
+              locked={!selected.unlocked}
+              className="h-20 w-20 mx-auto"
+            />
+            <DialogHeader className="sm:text-center">
+              <DialogTitle>{selected.achievement.title}</DialogTitle>
+              <DialogDescription>{selected.achievement.description}</DialogDescription>
+            </DialogHeader>
+            <div className="flex justify-center">
+              <Badge className={TIER_STYLES[selected.achievement.tier].className}>
+                {TIER_STYLES[selected.achievement.tier].label}
+              </Badge>
+            </div>
+            {selected.unlocked ? (
+              <div className="space-y-3">
+                <p className="text-sm text-primary">
+                  Unlocked {formatUnlockDate(unlockTimes.get(selected.achievement.id), "d MMMM yyyy 'at' HH:mm")}
+                </p>
+                <Button
+                  onClick={() => setCertificate(buildCertificateData(
+                    activeProfile.name,
+                    selected.achievement,
+                    history,
+                    unlockTimes.get(selected.achievement.id)
+                  ))}
+                >
+                  <Award className="w-4 h-4 mr-2" />
+                  View Certificate
+                </Button>
+              </div>
+            ) : (
+              <div className="space-y-1">
+                <Progress value={selected.ratio * 100} className="h-2" />
+                <p className="text-sm text-muted-foreground">
+                  {Math.floor(selected.current)} / {selected.achievement.goal} {METRIC_UNITS[selected.achievement.metric]}
+                  {' '}({Math.floor(selected.ratio * 100)}%)
+                </p>
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">{METRIC_DETAILS[selected.achievement.metric]}</p>
+          </DialogContent>
+        )}
+      </Dialog>
+
+      <CertificateDialog data={certificate} onOpenChange={(open) => !open && setCertificate(null)} />
+    </div>
+  );
+};
+
+export default Achievements;
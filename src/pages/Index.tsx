@@ -1,7 +1,10 @@
 import MantraTrainer from '@/components/MantraTrainer';
+import { useProfiles } from '@/hooks/use-profiles';
 
 const Index = () => {
-  return <MantraTrainer />;
+  const { activeProfile } = useProfiles();
+  // Switching profile starts the trainer afresh with that profile's data
+  return <MantraTrainer key={activeProfile.id} />;
 };
 
 export default Index;
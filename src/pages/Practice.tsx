@@ -0,0 +1,131 @@
+import { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import type { DayContentProps } from 'react-day-picker';
+import { ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Calendar } from '@/components/ui/calendar';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import PracticeHeatmap from '@/components/PracticeHeatmap';
+import BackupDialog from '@/components/BackupDialog';
+import { useProfiles } from '@/hooks/use-profiles';
+import { EMPTY_HISTORY } from '@/lib/history';
+import { loadPracticeHistory } from '@/lib/practice-store';
+import { calculateStreaks, localDayKey } from '@/lib/streaks';
+import { dailyRepetitionCounts, sessionTrend } from '@/lib/practice-stats';
+
+const accuracyChartConfig = {
+  accuracy: { label: 'First-try accuracy (%)', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const speedChartConfig = {
+  speed: { label: 'Aksharas per minute', color: 'hsl(var(--secondary))' },
+} satisfies ChartConfig;
+
+const Practice = () => {
+  const queryClient = useQueryClient();
+  const { activeProfile } = useProfiles();
+  const { data: history = EMPTY_HISTORY } = useQuery({
+    queryKey: ['practice-history', activeProfile.id],
+    queryFn: () => loadPracticeHistory(),
+  });
+  const counts = useMemo(() => dailyRepetitionCounts(history), [history]);
+  const trend = useMemo(() => sessionTrend(history), [history]);
+  const streaks = useMemo(() => calculateStreaks(history), [history]);
+
+  const DayWithCount = ({ date }: DayContentProps) => {
+    const count = counts.get(localDayKey(date)) ?? 0;
+    return (
+      <div className="flex flex-col items-center leading-none">
+        <span>{date.getDate()}</span>
+        <span className={`text-[10px] mt-0.5 ${count > 0 ? 'text-primary font-semibold' : 'text-transparent'}`}>
+          {count}
+        </span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-divine">
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <Button asChild variant="outline" className="border-accent">
+            <Link to="/">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Practice
+            </Link>
+          </Button>
+          <BackupDialog onImported={() => queryClient.invalidateQueries()} />
+        </div>
+
+        <div className="text-center">
+          <h1 className="text-4xl font-bold bg-gradient-sacred bg-clip-text text-transparent font-mantra">
+            {activeProfile.name}'s Practice
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            {history.repetitions.length} repetitions · {history.sessions.length} sessions ·
+            current streak {streaks.current} days · best {streaks.longest} days
+          </p>
+        </div>
+
+        {/* Heatmap */}
+        <Card className="p-6 bg-card/80 backdrop-blur-sm shadow-peaceful">
+          <h3 className="text-lg font-semibold mb-4">Daily Repetitions</h3>
+          <PracticeHeatmap counts={counts} />
+        </Card>
+
+        <div className="grid gap-6 lg:grid-cols-[auto_1fr]">
+          {/* Month Calendar */}
+          <Card className="p-6 bg-card/80 backdrop-blur-sm shadow-peaceful">
+            <h3 className="text-lg font-semibold mb-2">Month View</h3>
+            <Calendar
+              components={{ DayContent: DayWithCount }}
+              classNames={{ cell: 'h-11 w-10 text-center text-sm p-0 relative', head_cell: 'text-muted-foreground rounded-md w-10 font-normal text-[0.8rem]' }}
+              className="mx-auto"
+            />
+          </Card>
+
+          {/* Trends */}
+          <Card className="p-6 bg-card/80 backdrop-blur-sm shadow-peaceful space-y-6">
+            {trend.length === 0 ? (
+              <p className="text-center text-muted-foreground">
+                Complete a session to see your accuracy and typing speed over time.
+              </p>
+            ) : (
+              <>
+                <div>
+                  <h3 className="text-lg font-semibold mb-2">Accuracy per Session</h3>
+                  <ChartContainer config={accuracyChartConfig} className="h-56 w-full aspect-auto">
+                    <LineChart data={trend} margin={{ left: 0, right: 12 }}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                      <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Line dataKey="accuracy" type="monotone" stroke="var(--color-accuracy)" strokeWidth={2} dot={false} connectNulls />
+                    </LineChart>
+                  </ChartContainer>
+                </div>
+                <div>
+                  <h3 className="text-lg font-semibold mb-2">Typing Speed per Session</h3>
+                  <ChartContainer config={speedChartConfig} className="h-56 w-full aspect-auto">
+                    <LineChart data={trend} margin={{ left: 0, right: 12 }}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                      <YAxis tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Line dataKey="speed" type="monotone" stroke="var(--color-speed)" strokeWidth={2} dot={false} connectNulls />
+                    </LineChart>
+                  </ChartContainer>
+                </div>
+              </>
+            )}
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Practice;